@@ -1,11 +1,13 @@
 import { expect } from 'chai';
+import * as pako from 'pako';
 import * as sinon from 'sinon';
 import * as WebSocket from 'ws';
 
 import { setWebSocket } from './';
 import { Client, ClientType } from './Client';
+import { Button } from './state/controls';
 import { IGroupData, ISceneData } from './state/interfaces';
-import { Method } from './wire/packets';
+import { Method, Reply } from './wire/packets';
 
 setWebSocket(WebSocket);
 const port = process.env.SERVER_PORT || 1339;
@@ -63,6 +65,34 @@ describe('client', () => {
             });
             client.processMethod(new Method('hello', {}, true, 0));
         });
+
+        it('replies UnknownMethodName to methods it cannot handle', done => {
+            client = createClient();
+            server = new WebSocket.Server({ port });
+            client.open(socketOptions);
+            awaitConnect(() => {
+                ws.on('message', (payload: string) => {
+                    const reply = JSON.parse(payload);
+                    if (reply.type !== 'reply') {
+                        return;
+                    }
+                    expect(reply.id).to.equal(7);
+                    expect(reply.error.code).to.equal(4003);
+                    ws.close(1000, 'Normal');
+                    done();
+                });
+                ws.send(
+                    JSON.stringify({
+                        type: 'method',
+                        id: 7,
+                        method: 'unknownMethod',
+                        params: {},
+                        discard: false,
+                    }),
+                );
+            });
+        });
+        after(done => tearDown(done));
     });
 
     describe('state synchronization', () => {
@@ -124,4 +154,100 @@ describe('client', () => {
             });
         });
     });
+
+    describe('compression', () => {
+        it('renegotiates uncompressed if the server cannot decompress a frame', done => {
+            client = createClient();
+            // Calls left unanswered are cancelled when the client closes.
+            client.on('error', sinon.stub());
+            server = new WebSocket.Server({ port });
+            awaitConnect(() => {
+                ws.on('message', (payload: string | Buffer) => {
+                    if (typeof payload !== 'string') {
+                        const id = JSON.parse(
+                            pako.ungzip(payload, { to: 'string' }),
+                        ).id;
+                        const error = { code: 4001, message: 'Bad payload' };
+                        ws.send(JSON.stringify({ type: 'reply', id, error }));
+                        return;
+                    }
+                    const packet = JSON.parse(payload);
+                    if (packet.method !== 'setCompression') {
+                        return;
+                    }
+                    const scheme = packet.params.scheme[0];
+                    ws.send(JSON.stringify(new Reply(packet.id, { scheme })));
+                    if (scheme === 'none') {
+                        done();
+                    }
+                });
+            });
+            client
+                .open(socketOptions)
+                .then(() => client.setCompression(['gzip']))
+                .then(() => client.getScenes())
+                .catch(() => null);
+        });
+        after(done => tearDown(done));
+    });
+
+    describe('sequence gaps', () => {
+        function controlUpdate(seq: number, controlID: string, text: string) {
+            return {
+                type: 'method',
+                id: 0,
+                method: 'onControlUpdate',
+                params: {
+                    sceneID: 'default',
+                    controls: [{ controlID, kind: 'button', text }],
+                },
+                discard: true,
+                seq,
+            };
+        }
+
+        it('reconciles state after a missed update if enabled', done => {
+            client = createClient();
+            (<any>client).resyncOnSequenceGap = true;
+            server = new WebSocket.Server({ port });
+            // The server's copy of the scene, which the client fetches.
+            const controls = [
+                { controlID: 'button', kind: 'button', text: 'Start' },
+                { controlID: 'other', kind: 'button', text: 'Start' },
+            ];
+            awaitConnect(() => {
+                ws.on('message', (data: string) => {
+                    const packet = JSON.parse(data);
+                    if (packet.method === 'getScenes') {
+                        const scenes = [{ sceneID: 'default', controls }];
+                        ws.send(
+                            JSON.stringify(new Reply(packet.id, { scenes })),
+                        );
+                    } else if (packet.method === 'getGroups') {
+                        const groups = [{ groupID: 'default' }];
+                        ws.send(
+                            JSON.stringify(new Reply(packet.id, { groups })),
+                        );
+                    }
+                });
+            });
+            client
+                .open(socketOptions)
+                .then(() => client.synchronizeScenes())
+                .then(() => {
+                    const button = <Button>client.state.getControl('button');
+                    button.once('updated', () => {
+                        expect(button.text).to.equal('Missed');
+                        ws.close(1000, 'Normal');
+                        done();
+                    });
+                    ws.send(JSON.stringify(controlUpdate(1, 'other', 'One')));
+                    // The update with sequence number 2 is lost on the way.
+                    controls[0].text = 'Missed';
+                    ws.send(JSON.stringify(controlUpdate(3, 'other', 'Two')));
+                })
+                .catch(done);
+        });
+        after(done => tearDown(done));
+    });
 });
@@ -1,9 +1,15 @@
 import { EventEmitter } from 'events';
 
-import { PermissionDeniedError } from './errors';
+import { InteractiveError, PermissionDeniedError } from './errors';
 import { IClient } from './IClient';
+import { ILogger, NullLogger, withRedaction } from './logging';
 import { MethodHandlerManager } from './methods/MethodHandlerManager';
-import { onReadyParams } from './methods/methodTypes';
+import {
+    MethodParams,
+    MethodResult,
+    ProtocolMethod,
+} from './methods/methodTypes';
+import { IRateLimits, RateLimiter } from './RateLimiter';
 import {
     IControl,
     IGroup,
@@ -16,7 +22,6 @@ import {
     ISceneData,
     ISceneDataArray,
     ISceneDeletionParams,
-    ITransactionCapture,
 } from './state/interfaces';
 import { IState } from './state/IState';
 import { State } from './state/State';
@@ -25,7 +30,9 @@ import { Method, Reply } from './wire/packets';
 import {
     CompressionScheme,
     InteractiveSocket,
+    ISequenceGap,
     ISocketOptions,
+    ISocketStats,
     SocketState as InteractiveSocketState,
 } from './wire/Socket';
 
@@ -56,7 +63,24 @@ export class Client extends EventEmitter implements IClient {
      */
     protected socket: InteractiveSocket;
 
-    private methodHandler = new MethodHandlerManager();
+    protected methodHandler = new MethodHandlerManager();
+
+    protected logger: ILogger = new NullLogger();
+
+    private rateLimiter = new RateLimiter();
+
+    /**
+     * The compression preferences last sent with setCompression, re-negotiated on reconnect.
+     */
+    private compressionPreferences: CompressionScheme[];
+
+    /**
+     * Whether State is synchronized with the server when the socket reports a
+     * gap in the server's sequence numbers.
+     */
+    protected resyncOnSequenceGap = false;
+
+    private resyncing = false;
 
     /**
      * Constructs and sets up a client of the given type.
@@ -69,13 +93,27 @@ export class Client extends EventEmitter implements IClient {
         this.methodHandler.addHandler('hello', () => {
             this.emit('hello');
         });
+        this.on('sequenceGap', () => {
+            if (this.resyncOnSequenceGap) {
+                this.resynchronize();
+            }
+        });
     }
 
     /**
      * Processes a method through the client's method handler.
      */
     public processMethod(method: Method<any>) {
-        return this.methodHandler.handle(method);
+        try {
+            return this.methodHandler.handle(method);
+        } catch (err) {
+            // Methods the client has no handler for are left to State, which
+            // replies with UnknownMethodName if it cannot handle them either.
+            if (err instanceof InteractiveError.UnknownMethodName) {
+                return null;
+            }
+            throw err;
+        }
     }
 
     /**
@@ -90,7 +128,10 @@ export class Client extends EventEmitter implements IClient {
             }
             this.socket = null;
         }
-        this.socket = new InteractiveSocket(options);
+        this.socket = new InteractiveSocket({
+            logger: this.logger,
+            ...options,
+        });
         this.socket.on('method', (method: Method<any>) => {
             // Sometimes the client may also want to handle methods,
             // in these cases, if it replies we value it at a higher
@@ -110,8 +151,23 @@ export class Client extends EventEmitter implements IClient {
             }
         });
 
-        this.socket.on('open', () => this.emit('open'));
+        this.socket.on('open', () => {
+            if (this.compressionPreferences) {
+                this.negotiateCompression().catch(err =>
+                    this.emit('error', err),
+                );
+            }
+            this.emit('open');
+        });
+        this.socket.on('compressionFailed', (scheme: CompressionScheme) =>
+            this.onCompressionFailed(scheme),
+        );
         this.socket.on('error', (err: Error) => this.emit('error', err));
+        this.socket.on('pong', (rtt: number) => this.emit('pong', rtt));
+        this.socket.on('reconnectFailed', () => this.emit('reconnectFailed'));
+        this.socket.on('sequenceGap', (gap: ISequenceGap) =>
+            this.emit('sequenceGap', gap),
+        );
 
         // Re-emit these for debugging reasons
         this.socket.on('message', (data: any) => this.emit('message', data));
@@ -126,14 +182,62 @@ export class Client extends EventEmitter implements IClient {
         this.socket.setOptions(options);
     }
 
+    /**
+     * Sets per method budgets for outgoing methods. Methods called more often than
+     * their budget allows are queued, dropped or rejected as configured.
+     *
+     * @example `client.setRateLimits({ updateControls: { rate: 10 } });`
+     */
+    public setRateLimits(limits: IRateLimits) {
+        this.rateLimiter.setLimits(limits);
+    }
+
+    /**
+     * Sets the logger which receives log entries from the client, its socket and
+     * its clock synchronizer. Authorization headers and `key` query params are
+     * always redacted, wrap the logger in a [RedactingLogger]{@link RedactingLogger}
+     * to also redact participant fields.
+     */
+    public setLogger(logger: ILogger) {
+        this.logger = withRedaction(logger);
+        this.state.setLogger(this.logger);
+        if (this.socket) {
+            this.socket.setOptions({ logger: this.logger });
+        }
+    }
+
+    /**
+     * Returns counters describing the traffic on the client's socket, such as bytes
+     * and packets sent and received, calls and reply latencies for each method,
+     * timeouts and reconnections. Returns null if the client has not been opened.
+     *
+     * The counters survive reconnections, but each call to `open` creates a new
+     * socket and starts them from zero. Heartbeat pings sent as `getTime` calls,
+     * where the WebSocket cannot send ping frames, are counted under `getTime`.
+     */
+    public getStats(): ISocketStats {
+        return this.socket ? this.socket.getStats() : null;
+    }
+
     /**
      * Opens the connection to interactive.
      */
     public open(options: ISocketOptions): Promise<this> {
+        return this.openSocket(options).then(() => this);
+    }
+
+    /**
+     * Connects a new socket with the given options. The returned promise resolves
+     * once it opens, and can be cleared to stop waiting for it.
+     */
+    protected openSocket(
+        options: ISocketOptions,
+    ): Promise<void> & { clear: () => void } {
         this.state.reset();
+        this.compressionPreferences = null;
         this.createSocket(options);
         this.socket.connect();
-        return resolveOn(this, 'open').then(() => this);
+        return resolveOn(this, 'open');
     }
 
     /**
@@ -145,16 +249,49 @@ export class Client extends EventEmitter implements IClient {
         }
     }
 
-    //TODO: Actually implement compression
     /**
      * Begins a negotiation process between the server and this client,
      * the compression preferences of the client are sent to the server and then
      * the server responds with the chosen compression scheme.
+     *
+     * The preferences are remembered and negotiated again whenever the socket reconnects.
      */
     public setCompression(preferences: CompressionScheme[]): Promise<void> {
+        this.compressionPreferences = preferences;
+        return this.negotiateCompression();
+    }
+
+    /**
+     * Called when the server reports that it could not decompress our frames.
+     * The failing scheme is dropped from our preferences, falling back to `none`.
+     */
+    private onCompressionFailed(scheme: CompressionScheme) {
+        if (!this.compressionPreferences) {
+            return;
+        }
+        this.compressionPreferences = this.compressionPreferences.filter(
+            preference => preference !== scheme,
+        );
+        if (this.compressionPreferences.length === 0) {
+            this.compressionPreferences = ['none'];
+        }
+        this.logger.warn('Server could not decompress our frames', {
+            scheme,
+        });
+        this.emit('compressionFallback', scheme);
+
+        // If the socket is still up, renegotiate now, otherwise this happens on reconnect.
+        // The server can't read the failing scheme, so negotiate without it.
+        if (this.socket.getState() === InteractiveSocketState.Connected) {
+            this.socket.setOptions({ compressionScheme: 'none' });
+            this.negotiateCompression().catch(err => this.emit('error', err));
+        }
+    }
+
+    private negotiateCompression(): Promise<void> {
         return this.socket
             .execute('setCompression', {
-                params: preferences,
+                scheme: this.compressionPreferences,
             })
             .then(res => {
                 this.socket.setOptions({
@@ -209,100 +346,57 @@ export class Client extends EventEmitter implements IClient {
     }
 
     /**
-     * Gets the time from the server as a unix timestamp in UTC.
+     * Retrieves the scenes and groups from the server and reconciles the client's
+     * State with them. Objects already in State are updated in place, so changes
+     * from missed packets are applied and the usual State events are emitted.
      */
-    public getTime(): Promise<number> {
-        return this.execute('getTime', null, false).then(res => {
-            return res.time;
+    public reconcileState(): Promise<void> {
+        return Promise.all([
+            this.getScenes(),
+            this.getGroups(),
+        ]).then(([scenes, groups]) => {
+            this.state.reconcile(scenes.scenes, groups.groups);
         });
     }
+
     /**
-     * `createControls` will instruct the server to create your provided controls in the active,
-     * project. Participants will see the new controls as they are added.
-     */
-    public execute(
-        method: 'createControls',
-        params: ISceneData,
-        discard: false,
-    ): Promise<ISceneData>;
-    /**
-     * `ready` allows you to indicate to the server the ready state of your GameClient.
-     * By specifying `isReady` false you can pause participant interaction whilst you
-     * setup scenes and controls.
-     */
-    public execute(
-        method: 'ready',
-        params: onReadyParams,
-        discard: false,
-    ): Promise<void>;
-    /**
-     * `capture` is used to capture a spark transaction that you have received from the server.
-     */
-    public execute(
-        method: 'capture',
-        params: ITransactionCapture,
-        discard: false,
-    ): Promise<void>;
-    /**
-     * `getTime` retrieves the server's unix timestamp. You can use this to synchronize your clock with
-     * the servers. See [ClockSync]{@link ClockSync} for a Clock Synchronizer.
-     */
-    public execute(
-        method: 'getTime',
-        params: null,
-        discard: false,
-    ): Promise<{ time: number }>;
-    /**
-     * `getScenes` retrieves scenes stored ont he server. If you've used the studio to create your project,
-     * then you can use this to retrieve the scenes and controls created there.
-     */
-    public execute(
-        method: 'getScenes',
-        params: null,
-        discard: false,
-    ): Promise<ISceneDataArray>;
-    /**
-     * `giveInput` is used to send participant interactive events to the server.
-     * These events will be received by the corresponding GameClient.
-     */
-    public execute<K extends IInput>(
-        method: 'giveInput',
-        params: K,
-        discard: false,
-    ): Promise<void>;
-    /**
-     * `updateControls` is used to update control properties within a scene, such as disabling a control.
+     * Reconciles State after packets from the server were missed, unless a
+     * reconciliation is already running.
      */
-    public execute(
-        method: 'updateControls',
-        params: ISceneData,
-        discard: false,
-    ): Promise<void>;
+    private resynchronize() {
+        if (this.resyncing) {
+            return;
+        }
+        this.resyncing = true;
+        this.reconcileState()
+            .catch(err => this.emit('error', err))
+            .then(() => (this.resyncing = false));
+    }
+
     /**
-     * `deleteControls` will delete the specified controls from the server. Participants will see these controls
-     * vanish and will not be able to interact with them.
+     * Gets the time from the server as a unix timestamp in UTC.
      */
-    public execute(
-        method: 'deleteControls',
-        params: ISceneControlDeletion,
-        discard: false,
-    ): Promise<void>;
-    public execute<T>(
-        method: string,
-        params: T,
-        discard: boolean,
-    ): Promise<any>;
+    public getTime(): Promise<number> {
+        return this.execute('getTime', null, false).then(res => {
+            return res.time;
+        });
+    }
     /**
      * Execute will construct and send a method to the server for execution.
      * It will resolve with the server's reply. It is recommended that you use an
      * existing Client method if available instead of manually calling `execute`.
+     *
+     * The params and reply of each method are typed by [IProtocolMethods]{@link IProtocolMethods}.
+     * Methods are subject to the limits set with [setRateLimits]{@link Client.setRateLimits}.
      */
-    public execute(
-        method: string,
-        params: any,
+    public execute<K extends ProtocolMethod>(
+        method: K,
+        params: MethodParams<K>,
         discard: boolean,
-    ): Promise<any> {
-        return this.socket.execute(method, params, discard);
+    ): Promise<MethodResult<K>> {
+        return this.rateLimiter.schedule(method, () =>
+            this.socket.execute(method, params, discard),
+        );
     }
 
     public createControls(_: ISceneData): Promise<IControl[]> {
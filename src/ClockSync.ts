@@ -1,5 +1,6 @@
 import { EventEmitter } from 'events';
 
+import { ILogger, NullLogger, withRedaction } from './logging';
 import { delay } from './util';
 
 export enum ClockSyncerState {
@@ -42,6 +43,10 @@ export interface IClockSyncOptions {
      * How long to wait between sampling during a sync call.
      */
     sampleDelay?: number;
+    /**
+     * Receives log entries about synchronization.
+     */
+    logger?: ILogger;
 }
 
 const defaultOptions = {
@@ -49,6 +54,7 @@ const defaultOptions = {
     sampleSize: 3,
     threshold: 1000,
     sampleDelay: 5000,
+    logger: new NullLogger(),
 };
 /**
  * Clock syncer's goal is to keep a local clock in sync with a server clock.
@@ -67,6 +73,7 @@ export class ClockSync extends EventEmitter {
 
     private deltas: number[] = [];
     private cachedDelta: number = null;
+    private rtt: number = null;
     private checkTimer: NodeJS.Timer;
     private expectedTime: number;
 
@@ -75,6 +82,14 @@ export class ClockSync extends EventEmitter {
     constructor(options: IClockSyncOptions) {
         super();
         this.options = Object.assign({}, defaultOptions, options);
+        this.setLogger(this.options.logger);
+    }
+
+    /**
+     * Sets the logger which receives log entries about synchronization.
+     */
+    public setLogger(logger: ILogger) {
+        this.options.logger = withRedaction(logger);
     }
 
     /**
@@ -117,6 +132,9 @@ export class ClockSync extends EventEmitter {
                 return;
             }
             this.state = ClockSyncerState.Idle;
+            this.options.logger.debug('Clock synchronized', {
+                delta: this.getDelta(),
+            });
             this.emit('delta', this.getDelta());
             return undefined;
         });
@@ -134,6 +152,9 @@ export class ClockSync extends EventEmitter {
             .then(serverTime => this.processResponse(transmitTime, serverTime))
             .catch(err => {
                 if (this.state !== ClockSyncerState.Stopped) {
+                    this.options.logger.warn('Could not sample server time', {
+                        err,
+                    });
                     return err;
                 }
             });
@@ -149,6 +170,14 @@ export class ClockSync extends EventEmitter {
         }
     }
 
+    /**
+     * Gets the round trip time, in milliseconds, of the last time sample taken
+     * from the server, or null if no sample has been taken yet.
+     */
+    public getRtt(): number {
+        return this.rtt;
+    }
+
     /**
      * Gets the current delta value from the synchronizer.
      */
@@ -182,6 +211,7 @@ export class ClockSync extends EventEmitter {
         const receiveTime = Date.now();
         const rtt = receiveTime - transmitTime;
         const delta = serverTime - rtt / 2 - transmitTime;
+        this.rtt = rtt;
         return this.addDelta(delta);
     }
 
@@ -0,0 +1,97 @@
+import { expect, use } from 'chai';
+import * as sinon from 'sinon';
+
+import { ControlUpdateCoalescer } from './ControlUpdateCoalescer';
+import { IButtonData, IJoystickData } from './state/interfaces/controls';
+
+// tslint:disable-next-line:no-require-imports no-var-requires
+use(require('sinon-chai'));
+
+describe('control update coalescer', () => {
+    let clock: sinon.SinonFakeTimers;
+    let send: sinon.SinonStub;
+    let coalescer: ControlUpdateCoalescer;
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers();
+        send = sinon.stub().returns(Promise.resolve());
+        coalescer = new ControlUpdateCoalescer(send, 50);
+    });
+
+    afterEach(() => {
+        clock.restore();
+    });
+
+    it('merges updates to the same control within the window', () => {
+        const updates = Promise.all([
+            coalescer.update({
+                sceneID: 'default',
+                controls: [<IButtonData>{ controlID: 'a', progress: 0.1 }],
+            }),
+            coalescer.update({
+                sceneID: 'default',
+                controls: [
+                    <IButtonData>{
+                        controlID: 'a',
+                        progress: 0.2,
+                        disabled: true,
+                    },
+                ],
+            }),
+            coalescer.update({
+                sceneID: 'default',
+                controls: [<IJoystickData>{ controlID: 'b', angle: 1 }],
+            }),
+        ]);
+        expect(send).to.not.have.been.called;
+
+        clock.tick(50);
+        expect(send).to.have.been.calledOnce;
+        expect(send).to.have.been.calledWith({
+            sceneID: 'default',
+            controls: [
+                { controlID: 'a', progress: 0.2, disabled: true },
+                { controlID: 'b', angle: 1 },
+            ],
+        });
+        return updates;
+    });
+
+    it('sends one update per scene', () => {
+        coalescer.update({ sceneID: 'a', controls: [{ controlID: '1' }] });
+        coalescer.update({ sceneID: 'b', controls: [{ controlID: '1' }] });
+        clock.tick(50);
+        expect(send).to.have.been.calledTwice;
+    });
+
+    it('rejects every caller when the update fails', () => {
+        const err = new Error('nope');
+        send.returns(Promise.reject(err));
+        const first = coalescer.update({
+            sceneID: 'default',
+            controls: [{ controlID: 'a' }],
+        });
+        const second = coalescer.update({
+            sceneID: 'default',
+            controls: [{ controlID: 'b' }],
+        });
+        clock.tick(50);
+
+        return Promise.all([
+            first.then(() => expect.fail(), e => expect(e).to.equal(err)),
+            second.then(() => expect.fail(), e => expect(e).to.equal(err)),
+        ]);
+    });
+
+    it('sends queued updates immediately when flushed', () => {
+        coalescer.update({
+            sceneID: 'default',
+            controls: [{ controlID: 'a' }],
+        });
+        return coalescer.flush().then(() => {
+            expect(send).to.have.been.calledOnce;
+            clock.tick(50);
+            expect(send).to.have.been.calledOnce;
+        });
+    });
+});
@@ -0,0 +1,121 @@
+import { ISceneData } from './state/interfaces';
+import { IControlData } from './state/interfaces/controls/IControl';
+
+/**
+ * How long control updates are held for before being sent. Either a number of
+ * milliseconds, or `'frame'` to wait for the next animation frame.
+ */
+export type CoalesceWindow = number | 'frame';
+
+interface IPendingUpdate {
+    resolve: () => void;
+    reject: (err: Error) => void;
+}
+
+interface IPendingScene {
+    controls: { [controlID: string]: IControlData };
+    waiters: IPendingUpdate[];
+}
+
+/**
+ * The ControlUpdateCoalescer gathers the control updates made within a window
+ * into a single `updateControls` method per scene. Updates to the same control
+ * are merged, with later attributes overwriting earlier ones. Every caller's
+ * promise settles with the outcome of the combined update.
+ */
+export class ControlUpdateCoalescer {
+    private scenes: { [sceneID: string]: IPendingScene } = {};
+    private timer: any;
+    private scheduled = false;
+
+    constructor(
+        private send: (params: ISceneData) => Promise<void>,
+        private coalesceWindow: CoalesceWindow,
+    ) {}
+
+    /**
+     * Queues the update to be sent with the next batch.
+     */
+    public update(params: ISceneData): Promise<void> {
+        let scene = this.scenes[params.sceneID];
+        if (!scene) {
+            scene = this.scenes[params.sceneID] = { controls: {}, waiters: [] };
+        }
+
+        params.controls.forEach(control => {
+            scene.controls[control.controlID] = Object.assign(
+                scene.controls[control.controlID] || {},
+                control,
+            );
+        });
+
+        this.schedule();
+        return new Promise<void>((resolve, reject) => {
+            scene.waiters.push({ resolve: () => resolve(), reject });
+        });
+    }
+
+    /**
+     * Sends all queued updates immediately.
+     */
+    public flush(): Promise<void> {
+        this.cancel();
+        const scenes = this.scenes;
+        this.scenes = {};
+
+        return Promise.all(
+            Object.keys(scenes).map(sceneID => {
+                const scene = scenes[sceneID];
+                const controls = Object.keys(scene.controls).map(
+                    controlID => scene.controls[controlID],
+                );
+                return this.send({ sceneID, controls }).then(
+                    () => scene.waiters.forEach(waiter => waiter.resolve()),
+                    err => scene.waiters.forEach(waiter => waiter.reject(err)),
+                );
+            }),
+        ).then(() => undefined);
+    }
+
+    private schedule() {
+        if (this.scheduled) {
+            return;
+        }
+        this.scheduled = true;
+
+        const flush = () => {
+            this.scheduled = false;
+            this.flush();
+        };
+        if (this.usesAnimationFrame()) {
+            this.timer = requestAnimationFrame(flush);
+        } else {
+            this.timer = setTimeout(
+                flush,
+                this.coalesceWindow === 'frame' ? 16 : this.coalesceWindow,
+            );
+        }
+    }
+
+    private cancel() {
+        if (!this.scheduled) {
+            return;
+        }
+        this.scheduled = false;
+        if (this.usesAnimationFrame()) {
+            cancelAnimationFrame(this.timer);
+        } else {
+            clearTimeout(this.timer);
+        }
+    }
+
+    /**
+     * Frame windows fall back to a ~60fps timer outside of browsers.
+     */
+    private usesAnimationFrame(): boolean {
+        return (
+            this.coalesceWindow === 'frame' &&
+            typeof requestAnimationFrame === 'function'
+        );
+    }
+}
@@ -1,13 +1,20 @@
 import { expect, use } from 'chai';
 import * as sinon from 'sinon';
+import * as WebSocket from 'ws';
 
 // tslint:disable-next-line:no-require-imports import-name
 import chaip = require('chai-as-promised');
 use(<any>chaip);
+// tslint:disable-next-line:no-require-imports no-var-requires
+use(require('sinon-chai'));
 
 import { EndpointDiscovery } from './EndpointDiscovery';
 import { NoInteractiveServersAvailable } from './errors';
 import { Requester } from './Requester';
+import { InteractiveSocket } from './wire/Socket';
+
+InteractiveSocket.WebSocket = WebSocket;
+const port = process.env.SERVER_PORT || 1339;
 
 const servers = [
     {
@@ -27,6 +34,7 @@ describe('endpoint discovery', () => {
     const discovery = new EndpointDiscovery(requester);
     beforeEach(() => {
         stub = sinon.stub(requester, 'request');
+        discovery.clearCache();
     });
     afterEach(() => {
         stub.restore();
@@ -43,4 +51,74 @@ describe('endpoint discovery', () => {
             NoInteractiveServersAvailable,
         );
     });
+    it('caches endpoints until the ttl expires', () => {
+        const clock = sinon.useFakeTimers();
+        const cachingDiscovery = new EndpointDiscovery(requester, {
+            cacheTtl: 1000,
+        });
+        stub.resolves(servers);
+        return cachingDiscovery
+            .retrieveEndpoints()
+            .then(() => cachingDiscovery.retrieveEndpoints())
+            .then(() => {
+                expect(stub).to.have.been.calledOnce;
+                clock.tick(1001);
+                return cachingDiscovery.retrieveEndpoints();
+            })
+            .then(() => {
+                expect(stub).to.have.been.calledTwice;
+                clock.restore();
+            });
+    });
+    describe('latency probing', () => {
+        const unreachable = { address: 'ws://127.0.0.1:1/' };
+        const reachable = { address: `ws://127.0.0.1:${port}/` };
+        let server: WebSocket.Server;
+        beforeEach(ready => {
+            // Like real hosts, reject upgrades without a token.
+            server = new WebSocket.Server(
+                {
+                    port,
+                    verifyClient: (info: any) =>
+                        info.req.headers['authorization'] === 'Bearer token',
+                },
+                ready,
+            );
+        });
+        afterEach(done => {
+            InteractiveSocket.WebSocket = WebSocket;
+            server.close(done);
+        });
+        it('orders endpoints by their handshake latency', () => {
+            return expect(
+                discovery.sortByLatency([unreachable, reachable], {
+                    authToken: 'token',
+                }),
+            ).to.eventually.deep.equal([reachable, unreachable]);
+        });
+        it('deems endpoints which reject the handshake unreachable', () => {
+            return expect(discovery.probe(reachable)).to.eventually.equal(
+                Infinity,
+            );
+        });
+        it('deems endpoints the WebSocket cannot be created for unreachable', () => {
+            const args: any[][] = [];
+            // Like a browser WebSocket given something other than protocols.
+            InteractiveSocket.WebSocket = class {
+                constructor(...params: any[]) {
+                    args.push(params);
+                    throw new SyntaxError(
+                        'An invalid or illegal string was specified',
+                    );
+                }
+            };
+            return discovery
+                .probe(reachable, { authToken: 'token' })
+                .then(latency => {
+                    expect(latency).to.equal(Infinity);
+                    expect(args[0][0]).to.equal(reachable.address);
+                    expect(args[0][1]).to.deep.equal([]);
+                });
+        });
+    });
 });
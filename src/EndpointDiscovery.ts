@@ -1,23 +1,92 @@
 import { NoInteractiveServersAvailable } from './errors';
+import { ILogger, NullLogger, withRedaction } from './logging';
 import { IRequester } from './Requester';
+import { getConnectionOptions, getConnectionUrl } from './wire/connection';
+import { InteractiveSocket, ISocketOptions } from './wire/Socket';
 
 export interface IInteractiveEndpoint {
     address: string;
 }
 
+export interface IEndpointDiscoveryOptions {
+    /**
+     * How long, in milliseconds, a retrieved list of endpoints is reused for
+     * before asking the REST API again. Set to 0 to disable caching.
+     * Defaults to 60 seconds.
+     */
+    cacheTtl?: number;
+    /**
+     * How long to wait for a probed endpoint to complete its handshake before
+     * deeming it unreachable. Defaults to 5 seconds.
+     */
+    probeTimeout?: number;
+    /**
+     * Receives log entries about retrieved and probed endpoints.
+     */
+    logger?: ILogger;
+}
+
+const defaultOptions: IEndpointDiscoveryOptions = {
+    cacheTtl: 60 * 1000,
+    probeTimeout: 5 * 1000,
+    logger: new NullLogger(),
+};
+
+interface ICachedEndpoints {
+    url: string;
+    expiresAt: number;
+    endpoints: IInteractiveEndpoint[];
+}
+
 export class EndpointDiscovery {
-    constructor(private requester: IRequester) {}
+    private options: IEndpointDiscoveryOptions;
+    private cache: ICachedEndpoints = null;
+
+    constructor(
+        private requester: IRequester,
+        options: IEndpointDiscoveryOptions = {},
+    ) {
+        this.options = Object.assign({}, defaultOptions, options);
+        this.setLogger(this.options.logger);
+    }
+
+    /**
+     * Sets the logger which receives log entries about retrieved and probed endpoints.
+     */
+    public setLogger(logger: ILogger) {
+        this.options.logger = withRedaction(logger);
+    }
+
     /**
      * Retrieves available interactive servers from Mixer's REST API.
      * Game Clients should connect to the first one in the list and use
      * other servers in the list should a connection attempt to the first
      * fail.
+     *
+     * Results are cached for the configured TTL.
      */
     public retrieveEndpoints(
         endpoint: string = 'https://mixer.com/api/v1/interactive/hosts',
     ): Promise<IInteractiveEndpoint[]> {
+        if (
+            this.cache &&
+            this.cache.url === endpoint &&
+            this.cache.expiresAt > Date.now()
+        ) {
+            return Promise.resolve(this.cache.endpoints);
+        }
+
         return this.requester.request(endpoint).then(res => {
+            this.options.logger.debug('Retrieved endpoints', {
+                url: endpoint,
+                endpoints: res,
+            });
             if (res.length > 0) {
+                this.cache = {
+                    url: endpoint,
+                    expiresAt: Date.now() + this.options.cacheTtl,
+                    endpoints: res,
+                };
                 return res;
             }
             throw new NoInteractiveServersAvailable(
@@ -25,4 +94,101 @@ export class EndpointDiscovery {
             );
         });
     }
+
+    /**
+     * Clears any cached endpoints, the next retrieval will query the REST API.
+     */
+    public clearCache() {
+        this.cache = null;
+    }
+
+    /**
+     * Probes each endpoint by timing a websocket handshake with it, and resolves
+     * with the endpoints ordered from lowest to highest latency. Unreachable
+     * endpoints keep their original order at the end of the list.
+     *
+     * Hosts reject handshakes without the protocol version and credentials, so
+     * pass the options the client will connect with.
+     */
+    public sortByLatency(
+        endpoints: IInteractiveEndpoint[],
+        options: ISocketOptions = {},
+    ): Promise<IInteractiveEndpoint[]> {
+        return Promise.all(
+            endpoints.map(endpoint => this.probe(endpoint, options)),
+        ).then(latencies =>
+            endpoints
+                .map((endpoint, index) => ({
+                    endpoint,
+                    index,
+                    latency: latencies[index],
+                }))
+                .sort(
+                    (a, b) =>
+                        a.latency === b.latency
+                            ? a.index - b.index
+                            : a.latency - b.latency,
+                )
+                .map(probed => probed.endpoint),
+        );
+    }
+
+    /**
+     * Resolves with the time, in milliseconds, it took to open a websocket to
+     * the endpoint with the given connection options, or Infinity if it could
+     * not be reached, rejected the handshake or the WebSocket could not be
+     * created for it.
+     */
+    public probe(
+        endpoint: IInteractiveEndpoint,
+        options: ISocketOptions = {},
+    ): Promise<number> {
+        const connection = { ...options, url: endpoint.address };
+        return new Promise<number>(resolve => {
+            const start = Date.now();
+            let socket: any;
+            try {
+                socket = new InteractiveSocket.WebSocket(
+                    getConnectionUrl(connection),
+                    [],
+                    getConnectionOptions(connection),
+                );
+            } catch (err) {
+                this.options.logger.debug('Could not probe endpoint', {
+                    address: endpoint.address,
+                    err,
+                });
+                resolve(Infinity);
+                return;
+            }
+            let timer: NodeJS.Timer;
+            let finished = false;
+
+            const finish = (latency: number) => {
+                if (finished) {
+                    return;
+                }
+                finished = true;
+                clearTimeout(timer);
+                if (typeof socket.terminate === 'function') {
+                    socket.terminate();
+                } else {
+                    socket.close();
+                }
+                this.options.logger.debug('Probed endpoint', {
+                    address: endpoint.address,
+                    latency,
+                });
+                resolve(latency);
+            };
+
+            socket.addEventListener('open', () => finish(Date.now() - start));
+            socket.addEventListener('error', () => finish(Infinity));
+            socket.addEventListener('close', () => finish(Infinity));
+            timer = setTimeout(
+                () => finish(Infinity),
+                this.options.probeTimeout,
+            );
+        });
+    }
 }
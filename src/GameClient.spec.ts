@@ -0,0 +1,300 @@
+import { expect, use } from 'chai';
+import * as sinon from 'sinon';
+import * as WebSocket from 'ws';
+
+import { setWebSocket } from './';
+import { EndpointDiscovery } from './EndpointDiscovery';
+import { InteractiveError, NoInteractiveServersAvailable } from './errors';
+import { GameClient } from './GameClient';
+import { resolveOn } from './util';
+import { Method } from './wire/packets';
+
+// tslint:disable-next-line:no-require-imports no-var-requires
+use(require('sinon-chai'));
+
+setWebSocket(WebSocket);
+const port = process.env.SERVER_PORT || 1339;
+
+describe('game client', () => {
+    const liveEndpoint = { address: `ws://127.0.0.1:${port}/` };
+    const deadEndpoint = { address: 'ws://127.0.0.1:1/' };
+    let client: GameClient;
+    let server: WebSocket.Server;
+    let discoveryStub: sinon.SinonStub;
+
+    const options = { versionId: 1234, authToken: 'asdf!' };
+
+    beforeEach(ready => {
+        client = new GameClient();
+        // Failed connection attempts are reported, but shouldn't fail the test.
+        client.on('error', sinon.stub());
+        discoveryStub = sinon.stub(
+            EndpointDiscovery.prototype,
+            'retrieveEndpoints',
+        );
+        server = new WebSocket.Server({ port }, ready);
+    });
+
+    afterEach(done => {
+        setWebSocket(WebSocket);
+        discoveryStub.restore();
+        client.close();
+        server.close(done);
+    });
+
+    it('fails over to the next endpoint if a connection cannot be made', () => {
+        discoveryStub.resolves([deadEndpoint, liveEndpoint]);
+        const listeners = client.listenerCount('open');
+        return client.open(options).then(() => {
+            expect(client.getEndpoint()).to.equal(liveEndpoint);
+            // The failed attempt no longer waits for the socket to open.
+            expect(client.listenerCount('open')).to.equal(listeners);
+        });
+    });
+
+    it('rejects if no endpoint can be connected to', () => {
+        discoveryStub.resolves([deadEndpoint, deadEndpoint]);
+        return client
+            .open(options)
+            .then(() => expect.fail())
+            .catch(err =>
+                expect(err).to.be.an.instanceof(NoInteractiveServersAvailable),
+            );
+    });
+
+    it('stops at a host which refuses the credentials, with its error', () => {
+        const secondEndpoint = { address: `ws://localhost:${port}/` };
+        const urls: string[] = [];
+        // A host which turns the handshake down with a 4019 close.
+        setWebSocket(
+            class {
+                constructor(url: string) {
+                    urls.push(url);
+                }
+                public addEventListener(event: string, listener: Function) {
+                    if (event === 'close') {
+                        setTimeout(() =>
+                            listener({ code: 4019, reason: 'Bad token' }),
+                        );
+                    }
+                }
+                public close() {
+                    // The handshake has already been turned down.
+                }
+            },
+        );
+        discoveryStub.resolves([liveEndpoint, secondEndpoint]);
+        return client.open(options).then(() => expect.fail()).catch(err => {
+            expect(err).to.be.an.instanceof(
+                InteractiveError.CannotAuthenticate,
+            );
+            expect(urls).to.have.length(1);
+            expect(client.getEndpoint()).to.equal(liveEndpoint);
+        });
+    });
+
+    it('moves to the next endpoint when a reconnection fails', () => {
+        // A host which stops accepting connections once the first is made.
+        let accepting = true;
+        const failing = new WebSocket.Server({
+            port: Number(port) + 1,
+            verifyClient: () => accepting,
+        });
+        const failingEndpoint = {
+            address: `ws://127.0.0.1:${Number(port) + 1}/`,
+        };
+        discoveryStub.resolves([failingEndpoint, liveEndpoint]);
+        return client
+            .open(options)
+            .then(() => {
+                client.setOptions({
+                    reconnectionPolicy: {
+                        next: () => 5,
+                        reset: () => undefined,
+                    },
+                });
+                // Wait for the clock sync's first call, so it isn't sent mid-close.
+                return resolveOn(failing.clients[0], 'message');
+            })
+            .then(() => {
+                accepting = false;
+                failing.clients[0].close(1011, 'Going away');
+                return resolveOn(server, 'connection');
+            })
+            .then(() => {
+                expect(client.getEndpoint()).to.equal(liveEndpoint);
+                failing.close();
+            });
+    });
+
+    it('moves to the next endpoint when the host restarts', () => {
+        const secondEndpoint = { address: `ws://localhost:${port}/` };
+        discoveryStub.resolves([liveEndpoint, secondEndpoint]);
+        return client.open(options).then(() => {
+            client.setOptions({
+                reconnectionPolicy: { next: () => 5, reset: () => undefined },
+            });
+            const reconnected = resolveOn(server, 'connection');
+            // ws refuses to send 1012 itself, so emit the close a browser would see.
+            (<any>client).socket.emit('close', {
+                code: 1012,
+                reason: 'Restarting',
+                wasClean: true,
+            });
+            expect(client.getEndpoint()).to.equal(secondEndpoint);
+            return reconnected.then((ws: WebSocket) => {
+                expect(ws.upgradeReq.headers.host).to.equal(
+                    `localhost:${port}`,
+                );
+            });
+        });
+    });
+
+    it('sends updates coalesced before it is opened again', () => {
+        discoveryStub.resolves([liveEndpoint]);
+        const coalesced = { ...options, coalesceControlUpdates: 1000 };
+        const sent = new Promise(resolve =>
+            server.once('connection', (ws: WebSocket) =>
+                ws.on('message', (payload: string) => {
+                    if (JSON.parse(payload).method === 'updateControls') {
+                        resolve();
+                    }
+                }),
+            ),
+        );
+        let update: Promise<void>;
+        return client
+            .open(coalesced)
+            .then(() => {
+                // The old connection closes before the server can reply.
+                update = client
+                    .updateControls({
+                        sceneID: 'default',
+                        controls: [{ controlID: 'button', disabled: true }],
+                    })
+                    .catch(() => undefined);
+                return client.open(coalesced);
+            })
+            .then(() => Promise.all([update, sent]));
+    });
+
+    it('sets and retrieves bandwidth throttles', () => {
+        const throttles = { giveInput: { capacity: 1024, drainRate: 512 } };
+        const state = { giveInput: { inserted: 10, rejected: 2 } };
+        const executeStub = sinon.stub(client, 'execute');
+        executeStub.withArgs('setBandwidthThrottle').resolves();
+        executeStub.withArgs('getThrottleState').resolves(state);
+
+        return client
+            .setBandwidthThrottle(throttles)
+            .then(() => client.getThrottleState())
+            .then(res => {
+                expect(executeStub).to.have.been.calledWith(
+                    'setBandwidthThrottle',
+                    throttles,
+                    false,
+                );
+                expect(res).to.deep.equal(state);
+            });
+    });
+
+    it('reconciles state when the socket reconnects', () => {
+        const reconcile = sinon.stub(client, 'reconcileState').resolves();
+        discoveryStub.resolves([liveEndpoint]);
+        return client.open({ ...options, resyncOnReconnect: true }).then(() => {
+            expect(reconcile).to.not.have.been.called;
+            (<any>client).socket.emit('open');
+            expect(reconcile).to.have.been.calledOnce;
+        });
+    });
+
+    describe('memory warnings', () => {
+        const stats = {
+            usedBytes: 900,
+            totalBytes: 1000,
+            resources: { participants: { count: 10, usedBytes: 800 } },
+        };
+        const warn = (usedBytes: number) =>
+            client.processMethod(
+                new Method(
+                    'issueMemoryWarning',
+                    { ...stats, usedBytes },
+                    true,
+                    0,
+                ),
+            );
+
+        it('emits memoryWarning and calls the hook over the threshold', () => {
+            const hook = sinon.stub();
+            const listener = sinon.stub();
+            discoveryStub.resolves([liveEndpoint]);
+            client.on('memoryWarning', listener);
+            return client
+                .open({
+                    ...options,
+                    memoryPressureHook: hook,
+                    memoryPressureThreshold: 0.85,
+                })
+                .then(() => {
+                    warn(800);
+                    warn(900);
+                    expect(listener).to.have.been.calledTwice;
+                    return Promise.resolve();
+                })
+                .then(() => {
+                    expect(hook).to.have.been.calledOnce;
+                    expect(hook).to.have.been.calledWith(stats);
+                });
+        });
+    });
+
+    describe('participant paging', () => {
+        const alice = { sessionID: 'a', username: 'alice', connectedAt: 10 };
+        const bob = { sessionID: 'b', username: 'bob', connectedAt: 20 };
+        let executeStub: sinon.SinonStub;
+
+        beforeEach(() => {
+            executeStub = sinon.stub(client, 'execute');
+            executeStub
+                .withArgs('getAllParticipants', { from: 0 })
+                .resolves({ participants: [alice], total: 2, hasMore: true });
+            executeStub
+                .withArgs('getAllParticipants', { from: 10 })
+                .resolves({ participants: [bob], total: 2, hasMore: false });
+        });
+
+        it('pages through participants using the cursor', () => {
+            const iterator = client
+                .getAllParticipants()
+                [Symbol.asyncIterator]();
+            return iterator
+                .next()
+                .then(res => {
+                    expect(res.value.username).to.equal('alice');
+                    expect(executeStub).to.have.been.calledOnce;
+                    return iterator.next();
+                })
+                .then(res => {
+                    expect(res.value.username).to.equal('bob');
+                    return iterator.next();
+                })
+                .then(res => {
+                    expect(res.done).to.equal(true, 'expected the last page');
+                    expect(executeStub).to.have.been.calledTwice;
+                });
+        });
+
+        it('hydrates state with the participants', () => {
+            const existing = { sessionID: 'a', username: 'old' };
+            client.state.synchronizeParticipants([existing]);
+            return client.synchronizeParticipants().then(participants => {
+                expect(participants).to.have.length(2);
+                expect(participants[0]).to.equal(existing);
+                expect(existing.username).to.equal('alice');
+                expect(
+                    client.state.getParticipantBySessionID('b'),
+                ).to.deep.equal(bob);
+            });
+        });
+    });
+});
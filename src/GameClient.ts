@@ -1,16 +1,35 @@
 import { Client, ClientType } from './Client';
-import { EndpointDiscovery } from './EndpointDiscovery';
+import {
+    CoalesceWindow,
+    ControlUpdateCoalescer,
+} from './ControlUpdateCoalescer';
+import { EndpointDiscovery, IInteractiveEndpoint } from './EndpointDiscovery';
+import { InteractiveError, NoInteractiveServersAvailable } from './errors';
+import { ILogger } from './logging';
+import { ParticipantPager } from './ParticipantPager';
 import { Requester } from './Requester';
 import {
+    IBandwidthThrottleParams,
     IGroupDataArray,
     IGroupDeletionParams,
+    IMemoryStats,
+    IParticipant,
     IParticipantArray,
+    IParticipantPage,
     ISceneControlDeletion,
     ISceneData,
     ISceneDataArray,
     ISceneDeletionParams,
+    IThrottleStateResult,
 } from './state/interfaces';
 import { IControl } from './state/interfaces/controls/IControl';
+import { resolveOn } from './util';
+import {
+    ExponentialReconnectionPolicy,
+    IReconnectionPolicy,
+    isRecoverable,
+} from './wire/reconnection';
+import { ICloseEvent, ISocketOptions } from './wire/Socket';
 
 export interface IGameClientOptions {
     /**
@@ -27,23 +46,118 @@ export interface IGameClientOptions {
 
     /**
      * An OAuth Bearer token as defined in {@link https://art.tools.ietf.org/html/rfc6750| OAuth 2.0 Bearer Token Usage}.
+     * Not needed if an `authTokenProvider` is given.
+     */
+    authToken?: string;
+
+    /**
+     * Resolves with a fresh OAuth Bearer token. It is called before connecting, before
+     * each reconnection and when the server rejects the current token, so that
+     * sessions outlive the token they started with.
      */
-    authToken: string;
+    authTokenProvider?: () => Promise<string>;
 
     /**
      * A url which can be used to discover interactive servers.
      * Defaults to https://mixer.com/api/v1/interactive/hosts
      */
     discoveryUrl?: string;
+
+    /**
+     * Interactive servers to connect to, in order. If given, discovery is skipped,
+     * which is useful for connecting to local servers or replaying a recording.
+     */
+    endpoints?: IInteractiveEndpoint[];
+
+    /**
+     * If true, each discovered server is probed before connecting and servers
+     * are tried in order of their latency.
+     */
+    probeEndpoints?: boolean;
+
+    /**
+     * If set, control updates made within this window are merged and sent as a
+     * single `updateControls` method per scene. Either a number of milliseconds
+     * or `'frame'` for one animation frame. Updates are sent immediately by default.
+     */
+    coalesceControlUpdates?: CoalesceWindow;
+
+    /**
+     * Called when the server warns that the session is running out of memory and
+     * its usage is at or over `memoryPressureThreshold`. Use it to free memory,
+     * for example by pruning participant meta, before the session is closed.
+     */
+    memoryPressureHook?: (stats: IMemoryStats) => Promise<void> | void;
+
+    /**
+     * The fraction of the session's memory which must be in use for the
+     * `memoryPressureHook` to be called. Defaults to 0.8.
+     */
+    memoryPressureThreshold?: number;
+
+    /**
+     * If true, the client's State is reconciled with the server whenever the socket
+     * reconnects. See [reconcileState]{@link GameClient.reconcileState}.
+     */
+    resyncOnReconnect?: boolean;
+
+    /**
+     * If true, the client's State is reconciled with the server whenever the
+     * socket reports a gap in the server's sequence numbers, since a missed update
+     * would leave it stale. See [reconcileState]{@link GameClient.reconcileState}.
+     */
+    resyncOnSequenceGap?: boolean;
+}
+
+/**
+ * Returns true if the close code means the server rejected our credentials,
+ * which other endpoints won't accept either.
+ */
+function isAuthError(code: number): boolean {
+    return (
+        InteractiveError.errors[code] === InteractiveError.CannotAuthenticate
+    );
 }
 
 export class GameClient extends Client {
     private discovery = new EndpointDiscovery(new Requester());
+    private endpoints: IInteractiveEndpoint[] = [];
+    private endpointIndex = 0;
+    private coalescer: ControlUpdateCoalescer = null;
+    private memoryPressureHook: (stats: IMemoryStats) => Promise<void> | void;
+    private memoryPressureThreshold: number;
+    private resyncOnReconnect = false;
+    private openCount = 0;
+    private reconnecting = false;
+
     constructor() {
         super(ClientType.GameClient);
+        this.on('close', (evt: ICloseEvent) => {
+            // The host is restarting, or could not be reconnected to, so
+            // reconnect to the next one in the list instead.
+            if (
+                InteractiveError.errors[evt.code] ===
+                    InteractiveError.CloseRestarting ||
+                (this.reconnecting && !isAuthError(evt.code))
+            ) {
+                this.useEndpoint(this.endpointIndex + 1);
+            }
+            this.reconnecting = this.openCount > 0;
+        });
+        this.methodHandler.addHandler('issueMemoryWarning', method => {
+            this.onMemoryWarning(method.params);
+        });
+        this.on('open', () => {
+            this.openCount++;
+            this.reconnecting = false;
+            if (this.resyncOnReconnect && this.openCount > 1) {
+                this.reconcileState().catch(err => this.emit('error', err));
+            }
+        });
     }
     /**
      * Opens a connection to the interactive service using the provided options.
+     * Each discovered endpoint is tried in order until a connection is made.
      */
     public open(options: IGameClientOptions): Promise<this> {
         const extraHeaders = {
@@ -52,16 +166,171 @@ export class GameClient extends Client {
         if (options.sharecode) {
             extraHeaders['X-Interactive-Sharecode'] = options.sharecode;
         }
+        this.memoryPressureHook = options.memoryPressureHook;
+        this.memoryPressureThreshold =
+            options.memoryPressureThreshold === undefined
+                ? 0.8
+                : options.memoryPressureThreshold;
+        this.resyncOnReconnect = !!options.resyncOnReconnect;
+        this.resyncOnSequenceGap = !!options.resyncOnSequenceGap;
+        this.openCount = 0;
+        this.reconnecting = false;
+        // Send updates queued for the previous connection, so they don't hang.
+        if (this.coalescer) {
+            this.coalescer.flush();
+        }
+        this.coalescer = null;
+        if (options.coalesceControlUpdates !== undefined) {
+            this.coalescer = new ControlUpdateCoalescer(
+                params => this.execute('updateControls', params, false),
+                options.coalesceControlUpdates,
+            );
+        }
 
-        return this.discovery
-            .retrieveEndpoints(options.discoveryUrl)
-            .then(endpoints => {
-                return super.open({
-                    authToken: options.authToken,
-                    url: endpoints[0].address,
-                    extraHeaders: extraHeaders,
-                });
+        const authToken = options.authTokenProvider
+            ? options.authTokenProvider()
+            : Promise.resolve(options.authToken);
+        const discovered = options.endpoints
+            ? Promise.resolve(options.endpoints)
+            : this.discovery.retrieveEndpoints(options.discoveryUrl);
+
+        return Promise.all([
+            authToken,
+            discovered,
+        ]).then(([token, endpoints]) => {
+            const socketOptions: ISocketOptions = {
+                authToken: token,
+                authTokenProvider: options.authTokenProvider,
+                extraHeaders: extraHeaders,
+                reconnectionPolicy: this.failoverPolicy(
+                    new ExponentialReconnectionPolicy(),
+                ),
+            };
+            const sorted = options.probeEndpoints
+                ? this.discovery.sortByLatency(endpoints, socketOptions)
+                : Promise.resolve(endpoints);
+            return sorted.then(sortedEndpoints => {
+                this.endpoints = sortedEndpoints;
+                return this.openEndpoint(0, socketOptions);
+            });
+        });
+    }
+
+    /**
+     * Sets the given options on the socket. A reconnection policy is wrapped
+     * so that failed reconnections move on to the next endpoint.
+     */
+    public setOptions(options: ISocketOptions) {
+        if (options.reconnectionPolicy) {
+            options = {
+                ...options,
+                reconnectionPolicy: this.failoverPolicy(
+                    options.reconnectionPolicy,
+                ),
+            };
+        }
+        super.setOptions(options);
+    }
+
+    public setLogger(logger: ILogger) {
+        super.setLogger(logger);
+        this.discovery.setLogger(this.logger);
+    }
+
+    /**
+     * Returns the interactive endpoint this client is connected, or connecting, to.
+     */
+    public getEndpoint(): IInteractiveEndpoint {
+        return this.endpoints[this.endpointIndex];
+    }
+
+    /**
+     * Attempts to open a connection to the endpoint at the given index, moving on
+     * to the next endpoint if the connection closes before it opens. Rejected
+     * credentials end the attempts straight away with the server's error.
+     */
+    private openEndpoint(
+        index: number,
+        options: ISocketOptions,
+    ): Promise<this> {
+        this.endpointIndex = index;
+        const opened = this.openSocket({
+            ...options,
+            url: this.getEndpoint().address,
+        });
+        const closed = resolveOn(this.socket, 'close');
+
+        return Promise.race([
+            opened.then(() => null),
+            closed,
+        ]).then((evt: ICloseEvent) => {
+            opened.clear();
+            closed.clear();
+            if (!evt) {
+                return this;
+            }
+            this.logger.warn('Could not connect to endpoint', {
+                address: this.getEndpoint().address,
+                code: evt.code,
             });
+            if (isAuthError(evt.code)) {
+                this.close();
+                throw InteractiveError.fromSocketMessage({
+                    code: evt.code,
+                    message: evt.reason,
+                });
+            }
+            if (index + 1 >= this.endpoints.length) {
+                this.close();
+                throw new NoInteractiveServersAvailable(
+                    'Unable to connect to any Interactive servers, please try again.',
+                );
+            }
+            return this.openEndpoint(index + 1, options);
+        });
+    }
+
+    /**
+     * Wraps a reconnection policy so that a reconnection which fails, for any
+     * reason but rejected credentials, is tried again against the next endpoint
+     * rather than ending the session.
+     */
+    private failoverPolicy(policy: IReconnectionPolicy): IReconnectionPolicy {
+        return {
+            next: () => policy.next(),
+            reset: () => policy.reset(),
+            isRecoverable: code =>
+                isRecoverable(policy, code) ||
+                (this.reconnecting &&
+                    this.endpoints.length > 1 &&
+                    !isAuthError(code)),
+        };
+    }
+
+    /**
+     * Points the socket at the endpoint with the given index, wrapping around
+     * to the start of the list. Takes effect on the next (re)connection.
+     */
+    private useEndpoint(index: number) {
+        this.endpointIndex = index % this.endpoints.length;
+        this.setOptions({ url: this.getEndpoint().address });
+    }
+
+    /**
+     * Emits `memoryWarning` and, if usage is over the threshold, calls the
+     * memory pressure hook.
+     */
+    private onMemoryWarning(stats: IMemoryStats) {
+        this.emit('memoryWarning', stats);
+        if (
+            !this.memoryPressureHook ||
+            stats.usedBytes < stats.totalBytes * this.memoryPressureThreshold
+        ) {
+            return;
+        }
+        Promise.resolve()
+            .then(() => this.memoryPressureHook(stats))
+            .catch(err => this.emit('error', err));
     }
 
     /**
@@ -113,8 +382,14 @@ export class GameClient extends Client {
     /**
      * Instructs the server to update controls within a scene with your specified parameters.
      * Participants on the scene will see the controls update automatically.
+     *
+     * When `coalesceControlUpdates` is set, the update is batched with others
+     * made on the same scene within the window.
      */
     public updateControls(params: ISceneData): Promise<void> {
+        if (this.coalescer) {
+            return this.coalescer.update(params);
+        }
         return this.execute('updateControls', params, false);
     }
 
@@ -140,6 +415,84 @@ export class GameClient extends Client {
         return this.execute('updateParticipants', participants, false);
     }
 
+    /**
+     * Iterates over the participants in the session who connected after `connectedAfter`,
+     * retrieving them a page at a time. Each page is added to the client's State.
+     *
+     * @example
+     * for await (const participant of client.getAllParticipants()) {
+     *     console.log(participant.username);
+     * }
+     */
+    public getAllParticipants(connectedAfter: number = 0): ParticipantPager {
+        return this.pageAllParticipants(connectedAfter, page =>
+            this.hydrateParticipants(page),
+        );
+    }
+
+    private pageAllParticipants(
+        connectedAfter: number,
+        onPage: (page: IParticipantPage) => IParticipantPage = page => page,
+    ): ParticipantPager {
+        return new ParticipantPager(
+            cursor =>
+                this.execute(
+                    'getAllParticipants',
+                    { from: cursor },
+                    false,
+                ).then(onPage),
+            participant => participant.connectedAt,
+            connectedAfter,
+        );
+    }
+
+    /**
+     * Iterates over the participants who gave input after `threshold`, retrieving
+     * them a page at a time. Each page is added to the client's State.
+     */
+    public getActiveParticipants(threshold: number): ParticipantPager {
+        return new ParticipantPager(
+            cursor =>
+                this.execute(
+                    'getActiveParticipants',
+                    { threshold: cursor },
+                    false,
+                ).then(page => this.hydrateParticipants(page)),
+            participant => participant.lastInputAt,
+            threshold,
+        );
+    }
+
+    /**
+     * Retrieves every participant in the session and hydrates the state store with them.
+     * Use this after connecting to learn about participants who joined beforehand.
+     */
+    public synchronizeParticipants(): Promise<IParticipant[]> {
+        return this.getAllParticipants().toArray();
+    }
+
+    private hydrateParticipants(page: IParticipantPage): IParticipantPage {
+        return {
+            ...page,
+            participants: this.state.synchronizeParticipants(page.participants),
+        };
+    }
+
+    /**
+     * Retrieves the scenes, groups and participants from the server and reconciles
+     * the client's State with them. Objects already in State are updated in place,
+     * and the usual State events are only emitted for what changed.
+     */
+    public reconcileState(): Promise<void> {
+        return Promise.all([
+            this.getScenes(),
+            this.getGroups(),
+            this.pageAllParticipants(0).toArray(),
+        ]).then(([scenes, groups, participants]) => {
+            this.state.reconcile(scenes.scenes, groups.groups, participants);
+        });
+    }
+
     /**
      * Makes an attempt to capture a spark transaction and deduct the sparks from the participant
      * who created the transaction.
@@ -152,6 +505,35 @@ export class GameClient extends Client {
         return this.execute('capture', { transactionID }, false);
     }
 
+    /**
+     * Retrieves a breakdown of the memory the session is using on the server.
+     * Sessions which run out of memory are closed with
+     * [OutOfMemory]{@link InteractiveError.OutOfMemory}.
+     */
+    public getMemoryStats(): Promise<IMemoryStats> {
+        return this.execute('getMemoryStats', null, false);
+    }
+
+    /**
+     * Instructs the server to throttle the participant methods it forwards to this client.
+     * Pass null for a method to remove its throttle.
+     *
+     * @example `client.setBandwidthThrottle({ giveInput: { capacity: 10 * 1024, drainRate: 1024 } });`
+     */
+    public setBandwidthThrottle(
+        throttles: IBandwidthThrottleParams,
+    ): Promise<void> {
+        return this.execute('setBandwidthThrottle', throttles, false);
+    }
+
+    /**
+     * Retrieves how many packets the server has let through and rejected
+     * for each throttled method.
+     */
+    public getThrottleState(): Promise<IThrottleStateResult> {
+        return this.execute('getThrottleState', null, false);
+    }
+
     /**
      * Instructs the server to delete the provided controls.
      */
@@ -2,11 +2,18 @@ import { EventEmitter } from 'events';
 import { ClientType } from './Client';
 
 import { InteractiveError } from './errors';
+import { ILogger } from './logging';
+import {
+    MethodParams,
+    MethodResult,
+    ProtocolMethod,
+} from './methods/methodTypes';
 import {
     IControl,
     IGroupDataArray,
     IGroupDeletionParams,
     IInput,
+    IMemoryStats,
     IParticipantArray,
     ISceneControlDeletion,
     ISceneData,
@@ -14,12 +21,20 @@ import {
     ISceneDeletionParams,
 } from './state/interfaces';
 import { IState } from './state/IState';
+import { CompressionScheme, ISequenceGap, ISocketStats } from './wire/Socket';
 
 export interface IClient extends EventEmitter {
     clientType: ClientType;
     state: IState;
-    execute<T>(method: string, params: T, discard: boolean): Promise<any>;
+    execute<K extends ProtocolMethod>(
+        method: K,
+        params: MethodParams<K>,
+        discard: boolean,
+    ): Promise<MethodResult<K>>;
     ready(isReady: boolean): Promise<void>;
+    close(): void;
+    setLogger(logger: ILogger): void;
+    getStats(): ISocketStats;
 
     createControls(controls: ISceneData): Promise<IControl[]>;
     createGroups(groups: IGroupDataArray): Promise<IGroupDataArray>;
@@ -41,5 +56,26 @@ export interface IClient extends EventEmitter {
     on(event: 'message', listener: (payload: string) => void): this;
     on(event: 'error', listener: (err: InteractiveError.Base) => void): this;
     on(event: 'hello', listener: () => void): this;
+    /**
+     * Fired when the server answers a liveness ping, with the round trip time in milliseconds.
+     */
+    on(event: 'pong', listener: (rtt: number) => void): this;
+    /**
+     * Fired when the reconnection policy gives up on reconnecting the socket.
+     */
+    on(event: 'reconnectFailed', listener: () => void): this;
+    /**
+     * Fired on GameClients when the server warns that the session is running out of memory.
+     */
+    on(event: 'memoryWarning', listener: (stats: IMemoryStats) => void): this;
+    /**
+     * Fired when a packet from the server does not follow the sequence number
+     * of the previous one, so packets may have been missed.
+     */
+    on(event: 'sequenceGap', listener: (gap: ISequenceGap) => void): this;
+    on(
+        event: 'compressionFallback',
+        listener: (failedScheme: CompressionScheme) => void,
+    ): this;
     on(event: string, listener: Function): this;
 }
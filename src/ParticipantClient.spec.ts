@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import * as WebSocket from 'ws';
+
+import { setWebSocket } from './';
+import { ParticipantClient } from './ParticipantClient';
+import { resolveOn } from './util';
+
+setWebSocket(WebSocket);
+const port = process.env.SERVER_PORT || 1339;
+
+describe('participant client', () => {
+    let client: ParticipantClient;
+    let server: WebSocket.Server;
+
+    beforeEach(ready => {
+        client = new ParticipantClient();
+        // Errors from closing the connections shouldn't fail the test.
+        client.on('error', sinon.stub());
+        server = new WebSocket.Server({ port }, ready);
+    });
+
+    afterEach(done => {
+        client.close();
+        server.close(done);
+    });
+
+    it('reconnects when no reconnectChecker is given', () => {
+        const connected = resolveOn(server, 'connection');
+        return client
+            .open({ url: `ws://127.0.0.1:${port}/participant`, key: 'key' })
+            .then(() => {
+                client.setOptions({
+                    reconnectionPolicy: {
+                        next: () => 5,
+                        reset: () => undefined,
+                    },
+                });
+                return connected;
+            })
+            .then((ws: WebSocket) => {
+                // Wait for the clock sync's first call, so it isn't sent mid-close.
+                return resolveOn(ws, 'message').then(() => ws);
+            })
+            .then((ws: WebSocket) => {
+                const reconnected = resolveOn(server, 'connection');
+                ws.close(1011, 'Internal error');
+                return reconnected;
+            })
+            .then((ws: WebSocket) => {
+                expect(ws.upgradeReq.url).to.contain('key=key');
+            });
+    });
+});
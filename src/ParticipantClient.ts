@@ -1,6 +1,7 @@
 import { Client, ClientType } from './Client';
 import { IJSON } from './interfaces';
 import { IInput } from './state/interfaces/controls';
+import { ISocketOptions } from './wire/Socket';
 
 export interface IParticipantOptions {
     /**
@@ -22,6 +23,13 @@ export interface IParticipantOptions {
      * Optional intercept function that can be run before socket reconnections.
      */
     reconnectChecker?: () => Promise<void>;
+
+    /**
+     * If true, the client's State is reconciled with the server whenever the
+     * socket reports a gap in the server's sequence numbers.
+     * See [reconcileState]{@link Client.reconcileState}.
+     */
+    resyncOnSequenceGap?: boolean;
 }
 
 export class ParticipantClient extends Client {
@@ -30,15 +38,20 @@ export class ParticipantClient extends Client {
     }
 
     public open(options: IParticipantOptions): Promise<this> {
-        return super.open({
+        this.resyncOnSequenceGap = !!options.resyncOnSequenceGap;
+        const socketOptions: ISocketOptions = {
             url: options.url,
-            reconnectChecker: options.reconnectChecker,
             queryParams: {
                 'x-protocol-version': '2.0',
                 key: options.key,
                 ...options.extraParams,
             },
-        });
+        };
+        // Leave the socket's default checker in place when none is given.
+        if (options.reconnectChecker) {
+            socketOptions.reconnectChecker = options.reconnectChecker;
+        }
+        return super.open(socketOptions);
     }
     /**
      * Sends an input event to the Interactive Server. This should only be called
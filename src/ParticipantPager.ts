@@ -0,0 +1,70 @@
+import { IParticipant, IParticipantPage } from './state/interfaces';
+
+/**
+ * A ParticipantPager iterates over the participants returned by a paged
+ * protocol method, requesting the next page as the previous one runs out.
+ *
+ * @example
+ * for await (const participant of client.getAllParticipants()) {
+ *     console.log(participant.username);
+ * }
+ */
+export class ParticipantPager implements AsyncIterable<IParticipant> {
+    /**
+     * @param fetchPage Requests the page of participants after the cursor.
+     * @param cursorOf Returns the cursor to continue from after a participant.
+     * @param cursor The cursor to start from.
+     */
+    constructor(
+        private fetchPage: (cursor: number) => Promise<IParticipantPage>,
+        private cursorOf: (participant: IParticipant) => number,
+        private cursor: number,
+    ) {}
+
+    // tslint:disable-next-line:function-name
+    public [Symbol.asyncIterator](): AsyncIterator<IParticipant> {
+        let cursor = this.cursor;
+        let buffer: IParticipant[] = [];
+        let hasMore = true;
+
+        const next = (): Promise<IteratorResult<IParticipant>> => {
+            if (buffer.length > 0) {
+                return Promise.resolve({ done: false, value: buffer.shift() });
+            }
+            if (!hasMore) {
+                return Promise.resolve({ done: true, value: undefined });
+            }
+            return this.fetchPage(cursor).then(page => {
+                const participants = page.participants;
+                // Guard against a server which claims more but sends an empty page.
+                hasMore = page.hasMore && participants.length > 0;
+                if (participants.length > 0) {
+                    cursor = this.cursorOf(
+                        participants[participants.length - 1],
+                    );
+                }
+                buffer = participants.slice();
+                return next();
+            });
+        };
+
+        return { next };
+    }
+
+    /**
+     * Retrieves every remaining page and resolves with all of the participants.
+     */
+    public toArray(): Promise<IParticipant[]> {
+        const iterator = this[Symbol.asyncIterator]();
+        const participants: IParticipant[] = [];
+        const collect = (): Promise<IParticipant[]> =>
+            iterator.next().then(res => {
+                if (res.done) {
+                    return participants;
+                }
+                participants.push(res.value);
+                return collect();
+            });
+        return collect();
+    }
+}
@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import * as http from 'http';
+
+import { ClientType } from './Client';
+import { IClient } from './IClient';
+import { PrometheusExporter } from './PrometheusExporter';
+import { State } from './state/State';
+import { Method } from './wire/packets';
+import { ISocketStats, SocketState } from './wire/Socket';
+
+const port = Number(process.env.SERVER_PORT || 1339) + 1;
+
+describe('prometheus exporter', () => {
+    let stats: ISocketStats;
+    let state: State;
+    let exporter: PrometheusExporter;
+
+    beforeEach(() => {
+        stats = {
+            state: SocketState.Connected,
+            queueSize: 2,
+            bytesSent: 100,
+            bytesReceived: 200,
+            packetsSent: 3,
+            packetsReceived: 4,
+            timeouts: 1,
+            reconnects: 5,
+            methods: {
+                capture: {
+                    calls: 3,
+                    replies: 2,
+                    errors: 1,
+                    timeouts: 1,
+                    latency: {
+                        buckets: [{ le: 10, count: 1 }, { le: 100, count: 2 }],
+                        count: 2,
+                        sum: 60,
+                    },
+                },
+            },
+        };
+        state = new State(ClientType.GameClient);
+        const client = <IClient>(<any>{ state, getStats: () => stats });
+        exporter = new PrometheusExporter(client, { port });
+    });
+
+    afterEach(() => exporter.close());
+
+    it('renders socket, method and state metrics', () => {
+        state.processMethod(
+            new Method('giveInput', {
+                participantID: 'a',
+                input: { controlID: 'button', event: 'mousedown' },
+            }),
+        );
+
+        const lines = exporter.render().split('\n');
+        expect(lines).to.include.members([
+            '# TYPE interactive_socket_state gauge',
+            'interactive_socket_state{state="Connected"} 1',
+            'interactive_socket_state{state="Idle"} 0',
+            'interactive_socket_reconnects_total 5',
+            'interactive_socket_bytes_total{direction="sent"} 100',
+            'interactive_transaction_captures_total 3',
+            'interactive_transaction_capture_failures_total 2',
+            'interactive_method_calls_total{method="capture"} 3',
+            'interactive_reply_latency_milliseconds_bucket{method="capture",le="10"} 1',
+            'interactive_reply_latency_milliseconds_bucket{method="capture",le="+Inf"} 2',
+            'interactive_reply_latency_milliseconds_sum{method="capture"} 60',
+            'interactive_participants 0',
+            'interactive_inputs_total{control_id="button"} 1',
+        ]);
+    });
+
+    it('serves metrics over http', () => {
+        return exporter
+            .listen()
+            .then(
+                () =>
+                    new Promise<string>((resolve, reject) => {
+                        http
+                            .get(`http://localhost:${port}/metrics`, res => {
+                                let body = '';
+                                res.on('data', chunk => (body += chunk));
+                                res.on('end', () => resolve(body));
+                            })
+                            .on('error', reject);
+                    }),
+            )
+            .then(body => expect(body).to.equal(exporter.render()));
+    });
+});
@@ -0,0 +1,299 @@
+import * as http from 'http';
+
+import { IClient } from './IClient';
+import { IMethodStats, ISocketStats, SocketState } from './wire/Socket';
+
+export interface IPrometheusExporterOptions {
+    /**
+     * The port to serve metrics on. Defaults to 9464.
+     */
+    port?: number;
+    /**
+     * The interface to listen on. Defaults to localhost, so metrics are not
+     * reachable from other machines.
+     */
+    host?: string;
+    /**
+     * The path metrics are served from. Defaults to `/metrics`.
+     */
+    path?: string;
+    /**
+     * A prefix added to every metric name. Defaults to `interactive_`.
+     */
+    prefix?: string;
+}
+
+const defaultOptions: IPrometheusExporterOptions = {
+    port: 9464,
+    host: 'localhost',
+    path: '/metrics',
+    prefix: 'interactive_',
+};
+
+interface ILabels {
+    [name: string]: string | number;
+}
+
+/**
+ * Writes metrics in the Prometheus text exposition format.
+ */
+class ExpositionWriter {
+    private lines: string[] = [];
+
+    constructor(private prefix: string) {}
+
+    /**
+     * Starts a metric, subsequent samples are written under it.
+     */
+    public metric(
+        name: string,
+        metricType: 'counter' | 'gauge' | 'histogram',
+        help: string,
+    ): this {
+        this.lines.push(`# HELP ${this.prefix}${name} ${help}`);
+        this.lines.push(`# TYPE ${this.prefix}${name} ${metricType}`);
+        return this;
+    }
+
+    public sample(name: string, labels: ILabels, value: number): this {
+        const pairs = Object.keys(labels).map(
+            label => `${label}="${escapeLabel(String(labels[label]))}"`,
+        );
+        const formatted = pairs.length ? `{${pairs.join(',')}}` : '';
+        this.lines.push(`${this.prefix}${name}${formatted} ${value}`);
+        return this;
+    }
+
+    public toString(): string {
+        return this.lines.join('\n') + '\n';
+    }
+}
+
+function escapeLabel(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n');
+}
+
+/**
+ * The PrometheusExporter serves a client's metrics over HTTP, in the Prometheus
+ * text exposition format. It reports the socket state, traffic and reconnects from
+ * [getStats]{@link Client.getStats}, the clock synchronizer's round trip time,
+ * the participants in State, inputs for each control, and transaction captures.
+ *
+ * The exporter uses Node's http module, so it is not part of the browser bundle
+ * and is imported on its own.
+ *
+ * @example
+ * import { PrometheusExporter } from 'beam-interactive-node2/lib/PrometheusExporter';
+ *
+ * const exporter = new PrometheusExporter(client, { port: 9464 });
+ * exporter.listen();
+ */
+export class PrometheusExporter {
+    private options: IPrometheusExporterOptions;
+    private server: http.Server = null;
+
+    constructor(
+        private client: IClient,
+        options: IPrometheusExporterOptions = {},
+    ) {
+        this.options = Object.assign({}, defaultOptions, options);
+    }
+
+    /**
+     * Starts serving metrics, resolving once the server is listening.
+     */
+    public listen(): Promise<void> {
+        if (this.server) {
+            return Promise.resolve();
+        }
+        this.server = http.createServer((req, res) => {
+            if (req.method !== 'GET' || req.url !== this.options.path) {
+                res.writeHead(404);
+                res.end();
+                return;
+            }
+            res.writeHead(200, {
+                'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+            });
+            res.end(this.render());
+        });
+        return new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(this.options.port, this.options.host, () => {
+                this.server.removeListener('error', reject);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Stops serving metrics.
+     */
+    public close(): Promise<void> {
+        if (!this.server) {
+            return Promise.resolve();
+        }
+        const server = this.server;
+        this.server = null;
+        return new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    /**
+     * Renders the client's current metrics in the Prometheus text format.
+     */
+    public render(): string {
+        const writer = new ExpositionWriter(this.options.prefix);
+        const stats = this.client.getStats();
+        if (stats) {
+            writeSocketStats(writer, stats);
+        }
+
+        const state = this.client.state;
+        const rtt = state.getRoundTripTime();
+        if (rtt !== null) {
+            writer
+                .metric(
+                    'clock_rtt_milliseconds',
+                    'gauge',
+                    'Round trip time of the last clock synchronization sample.',
+                )
+                .sample('clock_rtt_milliseconds', {}, rtt);
+        }
+        writer
+            .metric(
+                'participants',
+                'gauge',
+                'Participants in the client state.',
+            )
+            .sample('participants', {}, state.getParticipants().size);
+
+        writer.metric(
+            'inputs_total',
+            'counter',
+            'Inputs given by participants to each control.',
+        );
+        state
+            .getInputCounts()
+            .forEach((count, controlID) =>
+                writer.sample('inputs_total', { control_id: controlID }, count),
+            );
+
+        return writer.toString();
+    }
+}
+
+function writeSocketStats(writer: ExpositionWriter, stats: ISocketStats) {
+    writer.metric(
+        'socket_state',
+        'gauge',
+        'The state of the socket, 1 for the current state.',
+    );
+    Object.keys(SocketState)
+        .filter(key => isNaN(Number(key)))
+        .forEach(key =>
+            writer.sample(
+                'socket_state',
+                { state: key },
+                SocketState[key] === stats.state ? 1 : 0,
+            ),
+        );
+
+    writer
+        .metric('socket_reconnects_total', 'counter', 'Socket reconnections.')
+        .sample('socket_reconnects_total', {}, stats.reconnects)
+        .metric(
+            'socket_queue_size',
+            'gauge',
+            'Packets waiting to be sent or replied to.',
+        )
+        .sample('socket_queue_size', {}, stats.queueSize)
+        .metric('socket_bytes_total', 'counter', 'Bytes sent and received.')
+        .sample('socket_bytes_total', { direction: 'sent' }, stats.bytesSent)
+        .sample(
+            'socket_bytes_total',
+            { direction: 'received' },
+            stats.bytesReceived,
+        )
+        .metric('socket_packets_total', 'counter', 'Packets sent and received.')
+        .sample(
+            'socket_packets_total',
+            { direction: 'sent' },
+            stats.packetsSent,
+        )
+        .sample(
+            'socket_packets_total',
+            { direction: 'received' },
+            stats.packetsReceived,
+        );
+
+    const capture = stats.methods['capture'];
+    writer
+        .metric(
+            'transaction_captures_total',
+            'counter',
+            'Spark transactions the client has tried to capture.',
+        )
+        .sample('transaction_captures_total', {}, capture ? capture.calls : 0)
+        .metric(
+            'transaction_capture_failures_total',
+            'counter',
+            'Spark transaction captures which failed or timed out.',
+        )
+        .sample(
+            'transaction_capture_failures_total',
+            {},
+            capture ? capture.errors + capture.timeouts : 0,
+        );
+
+    writeMethodStats(writer, stats.methods);
+}
+
+function writeMethodStats(
+    writer: ExpositionWriter,
+    stats: { [method: string]: IMethodStats },
+) {
+    const methods = Object.keys(stats);
+    const counters: [string, string, (method: IMethodStats) => number][] = [
+        ['method_calls_total', 'Calls made to each method.', m => m.calls],
+        ['method_errors_total', 'Error replies to each method.', m => m.errors],
+        [
+            'method_timeouts_total',
+            'Calls to each method which timed out waiting for a reply.',
+            m => m.timeouts,
+        ],
+    ];
+    counters.forEach(([name, help, value]) => {
+        writer.metric(name, 'counter', help);
+        methods.forEach(method =>
+            writer.sample(name, { method }, value(stats[method])),
+        );
+    });
+
+    const latency = 'reply_latency_milliseconds';
+    writer.metric(
+        latency,
+        'histogram',
+        'Time taken for the server to reply to each method.',
+    );
+    methods.forEach(method => {
+        const histogram = stats[method].latency;
+        histogram.buckets.forEach(bucket =>
+            writer.sample(
+                `${latency}_bucket`,
+                { method, le: bucket.le },
+                bucket.count,
+            ),
+        );
+        writer
+            .sample(
+                `${latency}_bucket`,
+                { method, le: '+Inf' },
+                histogram.count,
+            )
+            .sample(`${latency}_sum`, { method }, histogram.sum)
+            .sample(`${latency}_count`, { method }, histogram.count);
+    });
+}
@@ -0,0 +1,108 @@
+import { expect, use } from 'chai';
+import * as sinon from 'sinon';
+
+import { RateLimitedError } from './errors';
+import { RateLimitBehavior, RateLimiter } from './RateLimiter';
+
+// tslint:disable-next-line:no-require-imports no-var-requires
+use(require('sinon-chai'));
+
+describe('rate limiter', () => {
+    let clock: sinon.SinonFakeTimers;
+    let run: sinon.SinonStub;
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers();
+        run = sinon.stub().returns(Promise.resolve('done'));
+    });
+
+    afterEach(() => {
+        clock.restore();
+    });
+
+    it('does not limit methods without a budget', () => {
+        const limiter = new RateLimiter({ giveInput: { rate: 1 } });
+        for (let i = 0; i < 5; i++) {
+            limiter.schedule('updateControls', run);
+        }
+        expect(run).to.have.callCount(5);
+    });
+
+    it('queues calls until the budget refills', () => {
+        const limiter = new RateLimiter({
+            updateControls: { rate: 2, burst: 1 },
+        });
+        const calls = [1, 2, 3].map(() =>
+            limiter.schedule('updateControls', run),
+        );
+        expect(run).to.have.been.calledOnce;
+        clock.tick(500);
+        expect(run).to.have.been.calledTwice;
+        clock.tick(500);
+        expect(run).to.have.been.calledThrice;
+        return Promise.all(calls).then(results => {
+            expect(results).to.deep.equal(['done', 'done', 'done']);
+        });
+    });
+
+    it('rejects calls over the budget', () => {
+        const limiter = new RateLimiter({
+            updateControls: { rate: 1, behavior: RateLimitBehavior.Reject },
+        });
+        limiter.schedule('updateControls', run);
+        return limiter.schedule('updateControls', run).then(
+            () => expect.fail(),
+            err => {
+                expect(err).to.be.an.instanceOf(RateLimitedError);
+                expect(run).to.have.been.calledOnce;
+            },
+        );
+    });
+
+    it('drops the oldest queued call when the queue is full', () => {
+        const limiter = new RateLimiter({
+            updateControls: {
+                rate: 1,
+                behavior: RateLimitBehavior.DropOldest,
+                queueSize: 1,
+            },
+        });
+        const first = sinon.stub().returns(Promise.resolve());
+        const dropped = sinon.stub().returns(Promise.resolve());
+        const last = sinon.stub().returns(Promise.resolve());
+        limiter.schedule('updateControls', first);
+        const droppedCall = limiter.schedule('updateControls', dropped);
+        limiter.schedule('updateControls', last);
+
+        clock.tick(1000);
+        expect(first).to.have.been.calledOnce;
+        expect(dropped).to.not.have.been.called;
+        expect(last).to.have.been.calledOnce;
+        return droppedCall.then(
+            () => expect.fail(),
+            err => expect(err).to.be.an.instanceOf(RateLimitedError),
+        );
+    });
+
+    it('lets calls through at rates below one per second', () => {
+        const limiter = new RateLimiter({
+            updateParticipants: { rate: 0.5 },
+        });
+        limiter.schedule('updateParticipants', run);
+        limiter.schedule('updateParticipants', run);
+        expect(run).to.have.been.calledOnce;
+        clock.tick(1999);
+        expect(run).to.have.been.calledOnce;
+        clock.tick(1);
+        expect(run).to.have.been.calledTwice;
+    });
+
+    it('rejects bursts below one call', () => {
+        expect(
+            () =>
+                new RateLimiter({
+                    updateParticipants: { rate: 1, burst: 0.5 },
+                }),
+        ).to.throw(Error, /at least 1/);
+    });
+});
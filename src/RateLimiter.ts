@@ -0,0 +1,206 @@
+import { RateLimitedError } from './errors';
+
+/**
+ * What happens to a call made when its method has no budget left.
+ */
+export enum RateLimitBehavior {
+    /**
+     * The call waits until there is budget for it.
+     */
+    Queue = 1,
+    /**
+     * The call waits until there is budget for it. Once `queueSize` calls are
+     * waiting the oldest one is dropped, and rejected with a RateLimitedError.
+     */
+    DropOldest,
+    /**
+     * The call is rejected straight away with a RateLimitedError.
+     */
+    Reject,
+}
+
+/**
+ * The budget for a single protocol method.
+ */
+export interface IMethodRateLimit {
+    /**
+     * How many calls per second are allowed.
+     */
+    rate: number;
+    /**
+     * How many calls can be made in a burst before being limited, at least 1.
+     * Defaults to the rate, or 1 for rates below one call per second.
+     */
+    burst?: number;
+    /**
+     * Defaults to RateLimitBehavior.Queue.
+     */
+    behavior?: RateLimitBehavior;
+    /**
+     * How many calls can wait when using RateLimitBehavior.DropOldest.
+     * Defaults to 10.
+     */
+    queueSize?: number;
+}
+
+/**
+ * Rate limits keyed by method name, e.g. `updateControls`.
+ */
+export interface IRateLimits {
+    [method: string]: IMethodRateLimit;
+}
+
+/**
+ * A TokenBucket holds up to `capacity` tokens and is refilled with `rate`
+ * tokens per second. It holds at least one token by default, so that slow
+ * rates still let calls through.
+ */
+export class TokenBucket {
+    private tokens: number;
+    private lastRefill = Date.now();
+
+    constructor(
+        private rate: number,
+        private capacity: number = Math.max(1, rate),
+    ) {
+        this.tokens = capacity;
+    }
+
+    /**
+     * Takes a token from the bucket, returning false if it is empty.
+     */
+    public take(): boolean {
+        this.refill();
+        if (this.tokens < 1) {
+            return false;
+        }
+        this.tokens -= 1;
+        return true;
+    }
+
+    /**
+     * Returns how long, in milliseconds, until a token is available.
+     */
+    public timeUntilToken(): number {
+        this.refill();
+        if (this.tokens >= 1) {
+            return 0;
+        }
+        return Math.ceil((1 - this.tokens) * 1000 / this.rate);
+    }
+
+    private refill() {
+        const now = Date.now();
+        this.tokens = Math.min(
+            this.capacity,
+            this.tokens + (now - this.lastRefill) * this.rate / 1000,
+        );
+        this.lastRefill = now;
+    }
+}
+
+interface IQueuedCall {
+    run: () => void;
+    reject: (err: Error) => void;
+}
+
+class MethodRateLimiter {
+    private bucket: TokenBucket;
+    private queue: IQueuedCall[] = [];
+    private timer: NodeJS.Timer = null;
+
+    constructor(private method: string, private limit: IMethodRateLimit) {
+        this.bucket = new TokenBucket(limit.rate, limit.burst);
+    }
+
+    public schedule<T>(run: () => Promise<T>): Promise<T> {
+        if (this.queue.length === 0 && this.bucket.take()) {
+            return run();
+        }
+        if (this.limit.behavior === RateLimitBehavior.Reject) {
+            return Promise.reject(new RateLimitedError(this.method));
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            this.queue.push({
+                run: () => run().then(resolve, reject),
+                reject,
+            });
+            if (
+                this.limit.behavior === RateLimitBehavior.DropOldest &&
+                this.queue.length > this.limit.queueSize
+            ) {
+                this.queue.shift().reject(new RateLimitedError(this.method));
+            }
+            this.drainLater();
+        });
+    }
+
+    private drain() {
+        this.timer = null;
+        while (this.queue.length > 0 && this.bucket.take()) {
+            this.queue.shift().run();
+        }
+        this.drainLater();
+    }
+
+    private drainLater() {
+        if (this.timer || this.queue.length === 0) {
+            return;
+        }
+        this.timer = setTimeout(
+            () => this.drain(),
+            this.bucket.timeUntilToken(),
+        );
+    }
+}
+
+const defaultLimit = {
+    behavior: RateLimitBehavior.Queue,
+    queueSize: 10,
+};
+
+/**
+ * The RateLimiter keeps outgoing methods within per method budgets, so that
+ * bursts of calls don't get the client disconnected for flooding the service.
+ * Methods without a configured limit are not limited.
+ */
+export class RateLimiter {
+    private limiters: { [method: string]: MethodRateLimiter } = {};
+
+    constructor(limits: IRateLimits = {}) {
+        this.setLimits(limits);
+    }
+
+    /**
+     * Sets the limits for the given methods, replacing any existing limits
+     * for them. Throws if a burst is below 1, as no call could ever be made.
+     */
+    public setLimits(limits: IRateLimits) {
+        Object.keys(limits).forEach(method => {
+            const burst = limits[method].burst;
+            if (burst !== undefined && burst < 1) {
+                throw new Error(
+                    `The burst for "${method}" must be at least 1, got ${burst}`,
+                );
+            }
+        });
+        Object.keys(limits).forEach(method => {
+            this.limiters[method] = new MethodRateLimiter(
+                method,
+                Object.assign({}, defaultLimit, limits[method]),
+            );
+        });
+    }
+
+    /**
+     * Runs the call once the method's budget allows it.
+     */
+    public schedule<T>(method: string, run: () => Promise<T>): Promise<T> {
+        const limiter = this.limiters[method];
+        if (!limiter) {
+            return run();
+        }
+        return limiter.schedule(run);
+    }
+}
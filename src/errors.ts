@@ -95,6 +95,18 @@ export class NoInteractiveServersAvailable extends BaseError {
     }
 }
 
+/**
+ * RateLimitedError is thrown when a method is called more often than its
+ * client side rate limit allows, and the limit is configured to reject or
+ * drop calls.
+ */
+export class RateLimitedError extends BaseError {
+    constructor(public method: string) {
+        super(`The rate limit for ${method} was exceeded.`);
+        RateLimitedError.setProto(this);
+    }
+}
+
 /**
  * An interactive error, sent in a reply to a method that failed.
  */
@@ -4,10 +4,26 @@ export * from './state/Scene';
 export * from './state/Group';
 export * from './IClient';
 export * from './GameClient';
+export * from './ControlUpdateCoalescer';
+export * from './ParticipantPager';
+export * from './RateLimiter';
+export * from './logging';
 export * from './ParticipantClient';
 export * from './constants';
 export * from './errors';
 export * from './util';
+export * from './methods/methodTypes';
+export {
+    DeliveryMode,
+    defaultResendableMethods,
+    ILatencyHistogram,
+    IMethodStats,
+    ISequenceGap,
+    ISocketStats,
+    SocketState,
+} from './wire/Socket';
+export * from './wire/reconnection';
+export * from './wire/replay';
 
 /**
  * This allows you to specify which WebSocket implementation your
@@ -0,0 +1,124 @@
+import { expect, use } from 'chai';
+import * as sinon from 'sinon';
+
+import { InteractiveError } from './errors';
+import {
+    circular,
+    ILogger,
+    redact,
+    redacted,
+    RedactingLogger,
+} from './logging';
+import { Method, Packet } from './wire/packets';
+
+// tslint:disable-next-line:no-require-imports no-var-requires
+use(require('sinon-chai'));
+
+describe('logging', () => {
+    let logger: ILogger;
+
+    beforeEach(() => {
+        logger = {
+            debug: sinon.stub(),
+            info: sinon.stub(),
+            warn: sinon.stub(),
+            error: sinon.stub(),
+        };
+    });
+
+    it('redacts authorization headers and keys', () => {
+        expect(
+            redact({
+                headers: {
+                    Authorization: 'Bearer abc',
+                    'X-Protocol-Version': '2.0',
+                },
+                url: 'wss://interactive.test/gameClient?key=abc&foo=bar',
+                message: 'sent Bearer abc',
+            }),
+        ).to.deep.equal({
+            headers: { Authorization: redacted, 'X-Protocol-Version': '2.0' },
+            url: `wss://interactive.test/gameClient?key=${redacted}&foo=bar`,
+            message: `sent Bearer ${redacted}`,
+        });
+    });
+
+    it('redacts configured participant fields', () => {
+        const message = {
+            method: 'onParticipantJoin',
+            params: {
+                participants: [{ sessionID: 'a', username: 'bob', userID: 1 }],
+            },
+        };
+        const redactingLogger = new RedactingLogger(logger, {
+            participantFields: ['username', 'userID'],
+        });
+        redactingLogger.debug('Received message', { message });
+
+        expect(logger.debug).to.have.been.calledWith('Received message', {
+            message: {
+                method: 'onParticipantJoin',
+                params: {
+                    participants: [
+                        {
+                            sessionID: 'a',
+                            username: redacted,
+                            userID: redacted,
+                        },
+                    ],
+                },
+            },
+        });
+        expect(message.params.participants[0].username).to.equal('bob');
+    });
+
+    it('serializes packets and errors', () => {
+        const packet = new Packet(new Method('getTime', null, false, 1));
+        const err = new InteractiveError.CannotAuthenticate('bad token');
+        new RedactingLogger(logger).error('failed', { packet, err });
+
+        expect(logger.error).to.have.been.calledWith('failed', {
+            packet: {
+                type: 'method',
+                method: 'getTime',
+                params: null,
+                discard: false,
+                id: 1,
+            },
+            err: {
+                name: err.name,
+                message: 'bad token',
+                code: err.code,
+            },
+        });
+    });
+
+    it('replaces references back to enclosing objects', () => {
+        const socket: any = { url: 'wss://interactive.test', options: {} };
+        socket.options.socket = socket;
+        const shared = { id: 1 };
+
+        expect(
+            redact({ socket, first: shared, second: shared }),
+        ).to.deep.equal({
+            socket: {
+                url: 'wss://interactive.test',
+                options: { socket: circular },
+            },
+            first: { id: 1 },
+            second: { id: 1 },
+        });
+    });
+
+    it('skips redacting entries at disabled levels', () => {
+        logger.isEnabled = level => level !== 'debug';
+        const packet = { toJSON: sinon.stub().returns({}) };
+        const redactingLogger = new RedactingLogger(logger);
+        redactingLogger.debug('Sending packet', { packet });
+        redactingLogger.info('Sending packet', { packet });
+
+        expect(logger.debug).to.not.have.been.called;
+        expect(logger.info).to.have.been.calledOnce;
+        expect(packet.toJSON).to.have.been.calledOnce;
+    });
+});
@@ -0,0 +1,203 @@
+/**
+ * Structured fields attached to a log entry.
+ */
+export interface ILogFields {
+    [key: string]: any;
+}
+
+/**
+ * The levels log entries are written at.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * A Logger receives log entries from the client, at one of four levels. Adapt your
+ * logging library to this interface and pass it to
+ * [setLogger]{@link Client.setLogger} to see what the client is doing.
+ *
+ * Loggers handed to the client are wrapped in a [RedactingLogger]{@link RedactingLogger},
+ * so credentials never reach them.
+ */
+export interface ILogger {
+    debug(message: string, fields?: ILogFields): void;
+    info(message: string, fields?: ILogFields): void;
+    warn(message: string, fields?: ILogFields): void;
+    error(message: string, fields?: ILogFields): void;
+    /**
+     * Returns false if entries at the level are dropped, so the client can
+     * skip preparing them. Every level is assumed enabled if not implemented.
+     */
+    isEnabled?(level: LogLevel): boolean;
+}
+
+/**
+ * The NullLogger discards everything, it is used when no logger is set.
+ */
+export class NullLogger implements ILogger {
+    public debug() {
+        // Intentionally empty
+    }
+    public info() {
+        // Intentionally empty
+    }
+    public warn() {
+        // Intentionally empty
+    }
+    public error() {
+        // Intentionally empty
+    }
+    public isEnabled() {
+        return false;
+    }
+}
+
+export interface IRedactionOptions {
+    /**
+     * Participant fields to redact, such as `username` or `userID`.
+     */
+    participantFields?: string[];
+}
+
+/**
+ * The value redacted fields are replaced with.
+ */
+export const redacted = '[redacted]';
+
+/**
+ * The value references back to an enclosing object are replaced with.
+ */
+export const circular = '[circular]';
+
+// Fields holding credentials, compared case insensitively.
+const secretFields = ['authorization', 'authtoken', 'key'];
+
+// Visits a value being redacted, returning its redacted copy.
+type Visitor = (item: any, inParticipant: boolean) => any;
+
+/**
+ * Returns a deep copy of the value with credentials and the configured participant
+ * fields replaced. Credentials are also removed from strings, such as bearer tokens
+ * in headers and `key` query params in urls. Objects which refer back to one
+ * they are nested in are replaced with `[circular]`.
+ */
+export function redact<T>(value: T, options: IRedactionOptions = {}): T {
+    const participantFields = options.participantFields || [];
+    const ancestors = new Set<any>();
+    const visit: Visitor = (item, inParticipant) => {
+        if (typeof item === 'string') {
+            return redactString(item);
+        }
+        if (!item || typeof item !== 'object') {
+            return item;
+        }
+        if (ancestors.has(item)) {
+            return circular;
+        }
+        ancestors.add(item);
+        const copy = copyObject(item, inParticipant, participantFields, visit);
+        ancestors.delete(item);
+        return copy;
+    };
+    return visit(value, false);
+}
+
+/**
+ * Copies an object or array for `redact`, visiting each of its values.
+ */
+function copyObject(
+    item: any,
+    inParticipant: boolean,
+    participantFields: string[],
+    visit: Visitor,
+): any {
+    if (Array.isArray(item)) {
+        return item.map(entry => visit(entry, inParticipant));
+    }
+    if (item instanceof Error) {
+        return visit(
+            Object.assign({ name: item.name, message: item.message }, item),
+            inParticipant,
+        );
+    }
+    if (typeof item.toJSON === 'function') {
+        return visit(item.toJSON(), inParticipant);
+    }
+
+    const copy: ILogFields = {};
+    Object.keys(item).forEach(key => {
+        if (
+            secretFields.indexOf(key.toLowerCase()) !== -1 ||
+            (inParticipant && participantFields.indexOf(key) !== -1)
+        ) {
+            copy[key] = redacted;
+            return;
+        }
+        copy[key] = visit(
+            item[key],
+            inParticipant || key === 'participants' || key === 'participant',
+        );
+    });
+    return copy;
+}
+
+function redactString(value: string): string {
+    return value
+        .replace(/(Bearer\s+)[^\s"]+/gi, `$1${redacted}`)
+        .replace(/([?&]key=)[^&#\s"]*/gi, `$1${redacted}`);
+}
+
+/**
+ * The RedactingLogger removes credentials, and optionally participant details,
+ * from messages and fields before passing them on to another logger.
+ *
+ * @example
+ * client.setLogger(new RedactingLogger(myLogger, { participantFields: ['username'] }));
+ */
+export class RedactingLogger implements ILogger {
+    constructor(
+        private logger: ILogger,
+        private options: IRedactionOptions = {},
+    ) {}
+
+    public debug(message: string, fields?: ILogFields) {
+        if (this.isEnabled('debug')) {
+            this.logger.debug(redactString(message), this.redact(fields));
+        }
+    }
+
+    public info(message: string, fields?: ILogFields) {
+        if (this.isEnabled('info')) {
+            this.logger.info(redactString(message), this.redact(fields));
+        }
+    }
+
+    public warn(message: string, fields?: ILogFields) {
+        if (this.isEnabled('warn')) {
+            this.logger.warn(redactString(message), this.redact(fields));
+        }
+    }
+
+    public error(message: string, fields?: ILogFields) {
+        if (this.isEnabled('error')) {
+            this.logger.error(redactString(message), this.redact(fields));
+        }
+    }
+
+    public isEnabled(level: LogLevel): boolean {
+        return !this.logger.isEnabled || this.logger.isEnabled(level);
+    }
+
+    private redact(fields: ILogFields): ILogFields {
+        return fields === undefined ? undefined : redact(fields, this.options);
+    }
+}
+
+/**
+ * Wraps the logger in a RedactingLogger, unless it already is one.
+ */
+export function withRedaction(logger: ILogger): ILogger {
+    if (logger instanceof RedactingLogger || logger instanceof NullLogger) {
+        return logger;
+    }
+    return new RedactingLogger(logger);
+}
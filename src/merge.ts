@@ -5,3 +5,13 @@ import deepmerge = require('deepmerge'); //tslint:disable-line no-require-import
 export function merge<T>(x: T, y: T): T {
     return Object.assign(x, deepmerge(x, y));
 }
+
+/**
+ * Returns true if any property of `y` has a different value on `x`.
+ * Properties which are only present on `x` are ignored.
+ */
+export function differs<T>(x: T, y: T): boolean {
+    return Object.keys(y).some(
+        key => JSON.stringify(x[key]) !== JSON.stringify(y[key]),
+    );
+}
@@ -1,7 +1,6 @@
 import { expect } from 'chai';
 
 import { InteractiveError } from '../errors';
-import { IRawValues } from '../interfaces';
 import { Method } from '../wire/packets';
 import { MethodHandlerManager } from './MethodHandlerManager';
 
@@ -12,9 +11,7 @@ describe('method handler', () => {
     });
 
     it('handles a registered method', () => {
-        handler.addHandler<
-            IRawValues
-        >('hello', (method: Method<IRawValues>) => {
+        handler.addHandler('hello', method => {
             return method.reply({ bar: 'foo' }, null);
         });
 
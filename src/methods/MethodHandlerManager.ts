@@ -1,18 +1,7 @@
 import { InteractiveError } from '../errors';
 import { IInput, IInputEvent } from '../state/interfaces/controls/IInput';
-import { IParticipantArray } from '../state/interfaces/IParticipant';
 import { Method, Reply } from '../wire/packets';
-import { onReadyParams } from './methodTypes';
-
-import {
-    IGroupDataArray,
-    IGroupDeletionParams,
-} from '../state/interfaces/IGroup';
-import {
-    ISceneData,
-    ISceneDataArray,
-    ISceneDeletionParams,
-} from '../state/interfaces/IScene';
+import { MethodParams, ProtocolMethod } from './methodTypes';
 
 /**
  * A Method handler takes a given method and handles it, optionally replying with a reply instance.
@@ -28,70 +17,18 @@ export interface IMethodHandler<T> {
 export class MethodHandlerManager {
     private handlers: { [key: string]: IMethodHandler<any> } = {};
 
-    public addHandler(
-        method: 'onParticipantJoin',
-        handler: IMethodHandler<IParticipantArray>,
-    ): void;
-    public addHandler(
-        method: 'onParticipantLeave',
-        handler: IMethodHandler<IParticipantArray>,
-    ): void;
-    public addHandler(
-        method: 'onParticipantUpdate',
-        handler: IMethodHandler<IParticipantArray>,
-    ): void;
-
-    public addHandler(
-        method: 'onSceneCreate',
-        handler: IMethodHandler<ISceneDataArray>,
-    ): void;
-    public addHandler(
-        method: 'onSceneDelete',
-        handler: IMethodHandler<ISceneDeletionParams>,
-    ): void;
-    public addHandler(
-        method: 'onSceneUpdate',
-        handler: IMethodHandler<ISceneDataArray>,
-    ): void;
-
-    public addHandler(
-        method: 'onGroupCreate',
-        handler: IMethodHandler<IGroupDataArray>,
-    ): void;
-    public addHandler(
-        method: 'onGroupDelete',
-        handler: IMethodHandler<IGroupDeletionParams>,
-    ): void;
-    public addHandler(
-        method: 'onGroupUpdate',
-        handler: IMethodHandler<IGroupDataArray>,
-    ): void;
-
-    public addHandler(
-        method: 'onControlCreate',
-        handler: IMethodHandler<ISceneData>,
-    ): void;
-    public addHandler(
-        method: 'onControlDelete',
-        handler: IMethodHandler<ISceneData>,
-    ): void;
-    public addHandler(
-        method: 'onControlUpdate',
-        handler: IMethodHandler<ISceneData>,
-    ): void;
-
-    public addHandler(
-        method: 'onReady',
-        handler: IMethodHandler<onReadyParams>,
-    ): void;
-    public addHandler(method: 'hello', handler: IMethodHandler<void>): void;
-
+    /**
+     * When a GameClient receives `giveInput` it carries the participant's input event,
+     * rather than the input a participant sends.
+     */
     public addHandler<T extends IInput>(
         method: 'giveInput',
         handler: IMethodHandler<IInputEvent<T>>,
     ): void;
-
-    public addHandler<T>(method: string, handler: IMethodHandler<T>): void;
+    public addHandler<K extends ProtocolMethod>(
+        method: K,
+        handler: IMethodHandler<MethodParams<K>>,
+    ): void;
     /**
      * Registers a handler for a method name.
      */
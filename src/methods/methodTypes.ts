@@ -1,3 +1,180 @@
+import {
+    IInput,
+    ITransactionCapture,
+} from '../state/interfaces/controls/IInput';
+import {
+    IGroupDataArray,
+    IGroupDeletionParams,
+} from '../state/interfaces/IGroup';
+import { IMemoryStats } from '../state/interfaces/IMemory';
+import {
+    IGetActiveParticipantsParams,
+    IGetAllParticipantsParams,
+    IParticipantArray,
+    IParticipantPage,
+} from '../state/interfaces/IParticipant';
+import {
+    ISceneControlDeletion,
+    ISceneData,
+    ISceneDataArray,
+    ISceneDeletionParams,
+} from '../state/interfaces/IScene';
+import {
+    IBandwidthThrottleParams,
+    IThrottleStateResult,
+} from '../state/interfaces/IThrottle';
+import { CompressionScheme } from '../wire/compression';
+
 export type onReadyParams = {
     isReady: boolean;
 };
+
+/**
+ * Describes a protocol method, with the params it is sent with and the
+ * result it is replied to with.
+ */
+export interface IMethodDescriptor<P, R> {
+    params: P;
+    result: R;
+}
+
+/**
+ * A registry of the methods on the interactive protocol, mapping each method name
+ * to its params and result. It types both the methods sent with
+ * [execute]{@link Client.execute} and the handlers registered with
+ * [addHandler]{@link MethodHandlerManager.addHandler}.
+ *
+ * Supporting a new protocol method only needs an entry here.
+ */
+export interface IProtocolMethods {
+    // Shared methods
+    /**
+     * `getTime` retrieves the server's unix timestamp. You can use this to synchronize your clock with
+     * the servers. See [ClockSync]{@link ClockSync} for a Clock Synchronizer.
+     */
+    getTime: IMethodDescriptor<null, { time: number }>;
+    /**
+     * `getScenes` retrieves scenes stored ont he server. If you've used the studio to create your project,
+     * then you can use this to retrieve the scenes and controls created there.
+     */
+    getScenes: IMethodDescriptor<null, ISceneDataArray>;
+    getGroups: IMethodDescriptor<null, IGroupDataArray>;
+    setCompression: IMethodDescriptor<
+        { scheme: CompressionScheme[] },
+        { scheme: CompressionScheme }
+    >;
+
+    // GameClient methods
+    /**
+     * `ready` allows you to indicate to the server the ready state of your GameClient.
+     * By specifying `isReady` false you can pause participant interaction whilst you
+     * setup scenes and controls.
+     */
+    ready: IMethodDescriptor<onReadyParams, void>;
+    /**
+     * `capture` is used to capture a spark transaction that you have received from the server.
+     */
+    capture: IMethodDescriptor<ITransactionCapture, void>;
+    /**
+     * `getMemoryStats` retrieves a breakdown of the memory the session is using on the server.
+     */
+    getMemoryStats: IMethodDescriptor<null, IMemoryStats>;
+    /**
+     * `setBandwidthThrottle` sets throttles on the participant methods forwarded to the GameClient,
+     * such as `giveInput`. Methods which exceed their throttle are dropped by the server.
+     */
+    setBandwidthThrottle: IMethodDescriptor<IBandwidthThrottleParams, void>;
+    /**
+     * `getThrottleState` retrieves how many packets have been let through and rejected
+     * for each throttled method.
+     */
+    getThrottleState: IMethodDescriptor<null, IThrottleStateResult>;
+
+    /**
+     * `getAllParticipants` retrieves a page of the participants who connected after `from`,
+     * ordered by when they connected.
+     */
+    getAllParticipants: IMethodDescriptor<
+        IGetAllParticipantsParams,
+        IParticipantPage
+    >;
+    /**
+     * `getActiveParticipants` retrieves a page of the participants who gave input after `threshold`,
+     * ordered by when they last gave input.
+     */
+    getActiveParticipants: IMethodDescriptor<
+        IGetActiveParticipantsParams,
+        IParticipantPage
+    >;
+    updateParticipants: IMethodDescriptor<IParticipantArray, void>;
+
+    createGroups: IMethodDescriptor<IGroupDataArray, IGroupDataArray>;
+    updateGroups: IMethodDescriptor<IGroupDataArray, IGroupDataArray>;
+    deleteGroup: IMethodDescriptor<IGroupDeletionParams, void>;
+
+    createScenes: IMethodDescriptor<ISceneDataArray, ISceneDataArray>;
+    updateScenes: IMethodDescriptor<ISceneDataArray, void>;
+    deleteScene: IMethodDescriptor<ISceneDeletionParams, void>;
+
+    /**
+     * `createControls` will instruct the server to create your provided controls in the active,
+     * project. Participants will see the new controls as they are added.
+     */
+    createControls: IMethodDescriptor<ISceneData, ISceneData>;
+    /**
+     * `updateControls` is used to update control properties within a scene, such as disabling a control.
+     */
+    updateControls: IMethodDescriptor<ISceneData, void>;
+    /**
+     * `deleteControls` will delete the specified controls from the server. Participants will see these controls
+     * vanish and will not be able to interact with them.
+     */
+    deleteControls: IMethodDescriptor<ISceneControlDeletion, void>;
+
+    // Participant methods
+    /**
+     * `giveInput` is used to send participant interactive events to the server.
+     * These events will be received by the corresponding GameClient.
+     */
+    giveInput: IMethodDescriptor<IInput, void>;
+
+    // Events sent by the server
+    hello: IMethodDescriptor<void, void>;
+    issueMemoryWarning: IMethodDescriptor<IMemoryStats, void>;
+    onReady: IMethodDescriptor<onReadyParams, void>;
+
+    onParticipantJoin: IMethodDescriptor<IParticipantArray, void>;
+    onParticipantLeave: IMethodDescriptor<IParticipantArray, void>;
+    onParticipantUpdate: IMethodDescriptor<IParticipantArray, void>;
+
+    onSceneCreate: IMethodDescriptor<ISceneDataArray, void>;
+    onSceneDelete: IMethodDescriptor<ISceneDeletionParams, void>;
+    onSceneUpdate: IMethodDescriptor<ISceneDataArray, void>;
+
+    onGroupCreate: IMethodDescriptor<IGroupDataArray, void>;
+    onGroupDelete: IMethodDescriptor<IGroupDeletionParams, void>;
+    onGroupUpdate: IMethodDescriptor<IGroupDataArray, void>;
+
+    onControlCreate: IMethodDescriptor<ISceneData, void>;
+    onControlDelete: IMethodDescriptor<ISceneData, void>;
+    onControlUpdate: IMethodDescriptor<ISceneData, void>;
+}
+
+/**
+ * The name of a method in the protocol registry.
+ */
+export type ProtocolMethod = keyof IProtocolMethods;
+
+/**
+ * The params a protocol method is sent with.
+ */
+export type MethodParams<
+    K extends ProtocolMethod
+> = IProtocolMethods[K]['params'];
+
+/**
+ * The result a protocol method is replied to with.
+ */
+export type MethodResult<
+    K extends ProtocolMethod
+> = IProtocolMethods[K]['result'];
@@ -1,15 +1,17 @@
 import { EventEmitter } from 'events';
 
 import { IClient } from '../IClient';
+import { ILogger } from '../logging';
 import { Method, Reply } from '../wire/packets';
 import { Group } from './Group';
 import { IScene, ISceneData, ISceneDataArray } from './interfaces';
 import { IControl } from './interfaces/controls/IControl';
-import { IGroup, IGroupDataArray } from './interfaces/IGroup';
+import { IGroup, IGroupData, IGroupDataArray } from './interfaces/IGroup';
 import { IParticipant } from './interfaces/IParticipant';
 
 export interface IState extends EventEmitter {
     setClient(client: IClient): void;
+    setLogger(logger: ILogger): void;
     processMethod(method: Method<any>): void | Reply;
     synchronizeLocalTime(time?: Date | number): Date;
     synchronizeRemoteTime(time?: Date | number): Date;
@@ -23,6 +25,12 @@ export interface IState extends EventEmitter {
     onSceneCreate(data: ISceneData): IScene;
     synchronizeScenes(data: ISceneDataArray): IScene[];
     synchronizeGroups(data: IGroupDataArray): IGroup[];
+    synchronizeParticipants(participants: IParticipant[]): IParticipant[];
+    reconcile(
+        scenes: ISceneData[],
+        groups: IGroupData[],
+        participants?: IParticipant[],
+    ): void;
 
     getControl(id: string): IControl;
 
@@ -31,6 +39,9 @@ export interface IState extends EventEmitter {
     getParticipantByUsername(name: string): IParticipant;
     getParticipantBySessionID(id: string): IParticipant;
 
+    getInputCounts(): Map<string, number>;
+    getRoundTripTime(): number;
+
     /**
      * Fired when the ready state of the interactive session changes.
      */
@@ -1,7 +1,7 @@
 import { EventEmitter } from 'events';
 
 import { IClient } from '../IClient';
-import { merge } from '../merge';
+import { differs, merge } from '../merge';
 import { IControl, IControlData } from './interfaces/controls/IControl';
 import { IMeta } from './interfaces/controls/IMeta';
 import { IScene, ISceneData } from './interfaces/IScene';
@@ -88,6 +88,27 @@ export class Scene extends EventEmitter implements IScene {
             control.onUpdate(controlData);
         }
     }
+    /**
+     * Brings the controls in this scene in line with a fresh copy from the server.
+     * Controls are only created, updated or deleted if they actually changed.
+     */
+    public reconcileControls(controls: IControlData[]) {
+        const incoming = new Set(controls.map(control => control.controlID));
+        this.controls.forEach(control => {
+            if (!incoming.has(control.controlID)) {
+                this.onControlDeleted(control);
+            }
+        });
+        controls.forEach(controlData => {
+            const control = this.controls.get(controlData.controlID);
+            if (!control) {
+                this.onControlCreated(controlData);
+            } else if (differs<IControlData>(control, controlData)) {
+                control.onUpdate(controlData);
+            }
+        });
+    }
+
     /**
      * Called when the controls in this scene are updated.
      */
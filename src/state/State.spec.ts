@@ -1,6 +1,7 @@
-import { expect } from 'chai';
+import { expect, use } from 'chai';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as sinon from 'sinon';
 
 import { ClientType } from '../Client';
 import { Method } from '../wire/packets';
@@ -14,6 +15,9 @@ import {
 import { ISceneDataArray } from './interfaces/IScene';
 import { State } from './State';
 
+// tslint:disable-next-line:no-require-imports no-var-requires
+use(require('sinon-chai'));
+
 function loadFixture(name: string): ISceneDataArray {
     return JSON.parse(fs.readFileSync(name).toString());
 }
@@ -311,4 +315,73 @@ describe('state', () => {
             state.processMethod(new Method('onGroupDelete', delGroupParams));
         });
     });
+
+    describe('reconciliation', () => {
+        let scenes: ISceneDataArray;
+        const alice = { sessionID: 'alice' };
+        const bob = { sessionID: 'bob' };
+
+        beforeEach(() => {
+            initializeState('testGame.json');
+            scenes = loadFixture(
+                path.join(__dirname, '../../test/fixtures', 'testGame.json'),
+            );
+            state.synchronizeParticipants([alice]);
+        });
+
+        it('only emits events for what changed', () => {
+            const scene = state.getScene('my awesome scene');
+            const control = state.getControl('win_the_game_btn');
+            const group = state.getGroup('default');
+            const events = {
+                sceneCreated: sinon.stub(),
+                sceneDeleted: sinon.stub(),
+                groupDeleted: sinon.stub(),
+                participantJoin: sinon.stub(),
+                participantLeave: sinon.stub(),
+            };
+            Object.keys(events).forEach(event =>
+                state.on(event, events[event]),
+            );
+            const controlUpdated = sinon.stub();
+            control.on('updated', controlUpdated);
+
+            scenes.scenes[0].controls[0].disabled = true;
+            state.reconcile(
+                [scenes.scenes[0]],
+                [groupsFixture.groups[0]],
+                [bob],
+            );
+
+            expect(events.sceneCreated).to.not.have.been.called;
+            expect(events.sceneDeleted).to.have.been.calledOnce;
+            expect(events.sceneDeleted).to.have.been.calledWith(
+                'existing second scene',
+            );
+            expect(events.groupDeleted).to.have.been.calledWith('deleatable');
+            expect(events.participantLeave).to.have.been.calledWith('alice');
+            expect(events.participantJoin).to.have.been.calledWith(bob);
+            expect(controlUpdated).to.have.been.calledOnce;
+            expect(control.disabled).to.equal(true, 'control should update');
+
+            expect(state.getScene('my awesome scene')).to.equal(scene);
+            expect(state.getControl('win_the_game_btn')).to.equal(control);
+            expect(state.getGroup('default')).to.equal(group);
+        });
+
+        it('does nothing when the state is unchanged', () => {
+            const listener = sinon.stub();
+            state.on('sceneCreated', listener);
+            state.on('sceneDeleted', listener);
+            state.on('groupDeleted', listener);
+            state.on('participantLeave', listener);
+            const controlUpdated = sinon.stub();
+            state.getControl('win_the_game_btn').on('updated', controlUpdated);
+
+            state.reconcile(scenes.scenes, groupsFixture.groups, [alice]);
+
+            expect(listener).to.not.have.been.called;
+            expect(controlUpdated).to.not.have.been.called;
+        });
+    });
 });
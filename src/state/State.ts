@@ -5,7 +5,8 @@ import { ClientType } from '../Client';
 import { ClockSync } from '../ClockSync';
 import { InteractiveError } from '../errors';
 import { IClient } from '../IClient';
-import { merge } from '../merge';
+import { ILogger } from '../logging';
+import { differs, merge } from '../merge';
 import { MethodHandlerManager } from '../methods/MethodHandlerManager';
 import { Method, Reply } from '../wire/packets';
 import { Group } from './Group';
@@ -43,6 +44,8 @@ export class State extends EventEmitter implements IState {
 
     private clockDelta: number = 0;
 
+    private inputCounts = new Map<string, number>();
+
     private clockSyncer = new ClockSync({
         sampleFunc: () => this.client.getTime(),
     });
@@ -125,6 +128,103 @@ export class State extends EventEmitter implements IState {
         return data.groups.map(group => this.onGroupCreate(group));
     }
 
+    /**
+     * Adds the participants to the participant map, merging them into any
+     * existing records. Returns the stored participants.
+     */
+    public synchronizeParticipants(
+        participants: IParticipant[],
+    ): IParticipant[] {
+        return participants.map(participant => {
+            const existing = this.participants.get(participant.sessionID);
+            if (existing) {
+                return merge(existing, participant);
+            }
+            this.participants.set(participant.sessionID, participant);
+            return participant;
+        });
+    }
+
+    /**
+     * Brings the store in line with a fresh copy of the session from the server,
+     * such as after a reconnect. Existing Scenes, Controls, Groups and Participants are
+     * updated in place so references to them stay valid, and events are only emitted
+     * for what changed. Participants are left as they are when none are given.
+     */
+    public reconcile(
+        scenes: ISceneData[],
+        groups: IGroupData[],
+        participants?: IParticipant[],
+    ) {
+        this.reconcileScenes(scenes);
+        this.reconcileGroups(groups);
+        if (participants) {
+            this.reconcileParticipants(participants);
+        }
+    }
+
+    private reconcileScenes(scenes: ISceneData[]) {
+        const incoming = new Set(scenes.map(scene => scene.sceneID));
+        this.scenes.forEach(scene => {
+            if (!incoming.has(scene.sceneID)) {
+                this.onSceneDelete(scene.sceneID, 'default');
+            }
+        });
+        scenes.forEach(data => {
+            const scene = this.scenes.get(data.sceneID);
+            if (!scene) {
+                this.onSceneCreate(data);
+                return;
+            }
+            if (data.meta && differs(scene.meta, data.meta)) {
+                scene.update(data);
+            }
+            scene.reconcileControls(data.controls || []);
+        });
+    }
+
+    private reconcileGroups(groups: IGroupData[]) {
+        const incoming = new Set(groups.map(group => group.groupID));
+        this.groups.forEach(group => {
+            if (!incoming.has(group.groupID)) {
+                this.onGroupDelete(group.groupID, 'default');
+            }
+        });
+        groups.forEach(data => {
+            const group = this.groups.get(data.groupID);
+            if (!group) {
+                this.onGroupCreate(data);
+            } else if (differs<IGroupData>(group, data)) {
+                group.update(data);
+            }
+        });
+    }
+
+    private reconcileParticipants(participants: IParticipant[]) {
+        const incoming = new Set(
+            participants.map(participant => participant.sessionID),
+        );
+        this.participants.forEach(participant => {
+            if (!incoming.has(participant.sessionID)) {
+                this.participants.delete(participant.sessionID);
+                this.emit(
+                    'participantLeave',
+                    participant.sessionID,
+                    participant,
+                );
+            }
+        });
+        participants.forEach(data => {
+            const participant = this.participants.get(data.sessionID);
+            if (!participant) {
+                this.participants.set(data.sessionID, data);
+                this.emit('participantJoin', data);
+            } else if (differs(participant, data)) {
+                merge(participant, data);
+            }
+        });
+    }
+
     private addParticipantHandlers() {
         // A participant only gets onParticipantUpdate/Join events for themselves.
         this.methodHandler.addHandler('onParticipantUpdate', res => {
@@ -164,7 +264,12 @@ export class State extends EventEmitter implements IState {
         });
 
         this.methodHandler.addHandler('giveInput', res => {
-            const control = this.getControl(res.params.input.controlID);
+            const controlID = res.params.input.controlID;
+            this.inputCounts.set(
+                controlID,
+                (this.inputCounts.get(controlID) || 0) + 1,
+            );
+            const control = this.getControl(controlID);
             if (control) {
                 const participant = this.getParticipantBySessionID(
                     res.params.participantID,
@@ -174,6 +279,13 @@ export class State extends EventEmitter implements IState {
         });
     }
 
+    /**
+     * Sets the logger used by the state's clock synchronizer.
+     */
+    public setLogger(logger: ILogger) {
+        this.clockSyncer.setLogger(logger);
+    }
+
     public setClient(client: IClient) {
         this.client = client;
         this.client.on('open', () => this.clockSyncer.start());
@@ -225,6 +337,22 @@ export class State extends EventEmitter implements IState {
         this.isReady = false;
         this.participants.clear();
         this.groups.clear();
+        this.inputCounts.clear();
+    }
+
+    /**
+     * Returns how many inputs participants have given to each control, by controlID.
+     */
+    public getInputCounts(): Map<string, number> {
+        return new Map(this.inputCounts);
+    }
+
+    /**
+     * Returns the round trip time, in milliseconds, of the clock synchronizer's
+     * last sample of the server time, or null if it has not taken one.
+     */
+    public getRoundTripTime(): number {
+        return this.clockSyncer.getRtt();
     }
 
     /**
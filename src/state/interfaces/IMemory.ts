@@ -0,0 +1,33 @@
+/**
+ * The memory used by one kind of resource, such as scenes or participants.
+ */
+export interface IResourceUsage {
+    /**
+     * The number of resources of this kind.
+     */
+    count: number;
+    /**
+     * The number of bytes these resources use on the server.
+     */
+    usedBytes: number;
+}
+
+/**
+ * A breakdown of the memory a session uses on the server. Sent in reply to
+ * `getMemoryStats` and with `issueMemoryWarning`.
+ */
+export interface IMemoryStats {
+    /**
+     * The number of bytes the session is using.
+     */
+    usedBytes: number;
+    /**
+     * The number of bytes the session may use before it is closed with
+     * [OutOfMemory]{@link InteractiveError.OutOfMemory}.
+     */
+    totalBytes: number;
+    /**
+     * Memory usage keyed by resource, e.g. `participants`.
+     */
+    resources: { [resource: string]: IResourceUsage };
+}
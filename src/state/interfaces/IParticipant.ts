@@ -5,6 +5,40 @@ export interface IParticipantArray {
     participants: IParticipant[];
 }
 
+/**
+ * A page of participants, returned by `getAllParticipants` and `getActiveParticipants`.
+ */
+export interface IParticipantPage extends IParticipantArray {
+    /**
+     * The total number of participants matching the query.
+     */
+    total: number;
+    /**
+     * Whether there are more participants after this page.
+     */
+    hasMore: boolean;
+}
+
+/**
+ * Parameters for `getAllParticipants`, participants who connected after `from` are returned.
+ */
+export interface IGetAllParticipantsParams {
+    /**
+     * A unix milliseconds timestamp, compared against participants' `connectedAt`.
+     */
+    from: number; // tslint:disable-line no-reserved-keywords
+}
+
+/**
+ * Parameters for `getActiveParticipants`, participants who gave input after `threshold` are returned.
+ */
+export interface IGetActiveParticipantsParams {
+    /**
+     * A unix milliseconds timestamp, compared against participants' `lastInputAt`.
+     */
+    threshold: number;
+}
+
 export interface IParticipant {
     /**
      * a unique string identifier for the user in this session. It’s
@@ -0,0 +1,37 @@
+/**
+ * A leaky bucket throttle applied by the server to a participant method,
+ * such as `giveInput`, before it is forwarded to the GameClient.
+ */
+export interface IThrottleRule {
+    /**
+     * The number of bytes the bucket can hold, bursts up to this size are let through.
+     */
+    capacity: number;
+    /**
+     * The number of bytes per second the bucket drains at.
+     */
+    drainRate: number;
+}
+
+/**
+ * The throttles to apply, keyed by method name. Passing null for a method
+ * removes its throttle.
+ */
+export interface IBandwidthThrottleParams {
+    [method: string]: IThrottleRule;
+}
+
+/**
+ * How many packets the server has let through and rejected for a throttled method.
+ */
+export interface IThrottleState {
+    inserted: number;
+    rejected: number;
+}
+
+/**
+ * The throttle state for each throttled method, keyed by method name.
+ */
+export interface IThrottleStateResult {
+    [method: string]: IThrottleState;
+}
@@ -1,5 +1,7 @@
 export * from './IGroup';
 export * from './IScene';
 export * from './IGroup';
+export * from './IMemory';
 export * from './IParticipant';
+export * from './IThrottle';
 export * from './controls';
@@ -0,0 +1,171 @@
+import { expect } from 'chai';
+
+import { MessageParseError, TimeoutError } from '../errors';
+import { GameClient } from '../GameClient';
+import { resolveOn } from '../util';
+import { Method } from '../wire/packets';
+import { InteractiveSocket } from '../wire/Socket';
+import { IConformanceConnection, ScriptedServer } from './conformance';
+import {
+    FaultInjectionTransport,
+    IInjectedFault,
+} from './FaultInjectionTransport';
+import { LoopbackTransport } from './LoopbackTransport';
+
+describe('fault injection transport', () => {
+    let webSocket: any;
+    let faults: FaultInjectionTransport;
+    let client: GameClient;
+
+    beforeEach(() => {
+        webSocket = InteractiveSocket.WebSocket;
+        faults = new FaultInjectionTransport(new LoopbackTransport().WebSocket);
+        InteractiveSocket.WebSocket = faults.WebSocket;
+        client = new GameClient();
+    });
+
+    afterEach(() => {
+        client.close();
+        InteractiveSocket.WebSocket = webSocket;
+    });
+
+    function open() {
+        return client.open({
+            versionId: 1234,
+            authToken: 'token',
+            endpoints: [{ address: 'ws://loopback/gameClient' }],
+        });
+    }
+
+    it('closes connections on a schedule, and the client reconnects', () => {
+        const injected: IInjectedFault[] = [];
+        faults.on('fault', (fault: IInjectedFault) => injected.push(fault));
+        faults.setOptions({
+            schedule: [{ at: 10, fault: 'close', code: 1011, connection: 1 }],
+        });
+
+        return open()
+            .then(() => resolveOn(client, 'open', 2000))
+            .then(() => client.getTime())
+            .then(() => {
+                expect(injected).to.deep.equal([
+                    { fault: 'close', connection: 1, code: 1011 },
+                ]);
+                expect(client.getStats().reconnects).to.equal(1);
+            });
+    });
+
+    it('drops frames by rate, timing out method calls', () => {
+        return open()
+            .then(() => {
+                client.setOptions({ replyTimeout: 20 });
+                faults.setOptions({ rates: { drop: 1 }, direction: 'in' });
+                return client.getTime().then(
+                    () => {
+                        throw new Error('expected getTime to time out');
+                    },
+                    err => expect(err).to.be.an.instanceof(TimeoutError),
+                );
+            })
+            .then(() => {
+                faults.setOptions({ rates: {} });
+                return client.getTime();
+            })
+            .then(() => {
+                expect(
+                    client.getStats().methods['getTime'].timeouts,
+                ).to.be.above(0);
+            });
+    });
+
+    describe('frame faults', () => {
+        let connection: IConformanceConnection;
+        let received: number[];
+
+        beforeEach(() => {
+            const server = new ScriptedServer();
+            faults = new FaultInjectionTransport(
+                LoopbackTransport.forServer(server),
+            );
+            InteractiveSocket.WebSocket = faults.WebSocket;
+            received = [];
+            return open().then(() => server.nextConnection()).then(opened => {
+                connection = opened;
+                (<any>client).socket.on('method', (method: Method<any>) =>
+                    received.push(method.id),
+                );
+            });
+        });
+
+        function sendMethod(id: number) {
+            connection.send({
+                type: 'method',
+                id,
+                method: 'hello',
+                params: {},
+                discard: true,
+            });
+        }
+
+        it('delays frames', () => {
+            faults.setOptions({
+                rates: { delay: 1 },
+                direction: 'in',
+                maxDelay: 100,
+                random: () => 0.5,
+            });
+            const start = Date.now();
+            sendMethod(1);
+            return resolveOn(client, 'hello', 500).then(() => {
+                expect(received).to.deep.equal([1]);
+                expect(Date.now() - start).to.be.at.least(45);
+            });
+        });
+
+        it('duplicates frames', () => {
+            faults.setOptions({ rates: { duplicate: 1 }, direction: 'out' });
+            client.execute('getThrottleState', null, false).catch(() => null);
+            const isCall = (frame: any) => frame.method === 'getThrottleState';
+            return connection
+                .receive(isCall)
+                .then(first =>
+                    connection
+                        .receive(isCall)
+                        .then(second => expect(second).to.deep.equal(first)),
+                );
+        });
+
+        it('reorders frames', () => {
+            let roll = 0;
+            faults.setOptions({
+                rates: { reorder: 0.5 },
+                direction: 'in',
+                random: () => roll,
+            });
+            sendMethod(1);
+            return (
+                resolveOn(faults, 'fault', 500)
+                    .then(() => {
+                        roll = 0.9;
+                        sendMethod(2);
+                        return resolveOn(client, 'hello', 500);
+                    })
+                    // The held frame is delivered right after the next one.
+                    .then(() => expect(received).to.deep.equal([2, 1]))
+            );
+        });
+
+        it('corrupts frames, which the client drops', () => {
+            faults.setOptions({ rates: { corrupt: 1 }, direction: 'in' });
+            sendMethod(1);
+            return resolveOn(client, 'error', 500)
+                .then(err => {
+                    expect(err).to.be.an.instanceof(MessageParseError);
+                    faults.setOptions({ rates: {} });
+                    sendMethod(2);
+                    return resolveOn(client, 'hello', 500);
+                })
+                .then(() => expect(received).to.deep.equal([2]));
+        });
+    });
+});
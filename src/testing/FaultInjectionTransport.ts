@@ -0,0 +1,395 @@
+import { EventEmitter } from 'events';
+
+import { MemorySocket } from '../wire/memorySocket';
+
+/**
+ * A fault applied to a single frame.
+ */
+export type FrameFault = 'drop' | 'delay' | 'duplicate' | 'reorder' | 'corrupt';
+
+/**
+ * A fault the transport can inject. `close` closes the connection with one of
+ * the configured close codes.
+ */
+export type Fault = FrameFault | 'close';
+
+/**
+ * The direction of a frame, `in` for frames from the server and `out` for
+ * frames the client sends.
+ */
+export type FrameDirection = 'in' | 'out';
+
+/**
+ * A fault injected at a fixed time on a connection.
+ */
+export interface IScheduledFault {
+    /**
+     * Milliseconds after the connection opens.
+     */
+    at: number;
+    fault: Fault;
+    /**
+     * The close code for a `close` fault. Defaults to a random code from
+     * `closeCodes`.
+     */
+    code?: number;
+    /**
+     * The connection to inject the fault on, counting from 1. Defaults to
+     * every connection.
+     */
+    connection?: number;
+    /**
+     * The direction of the frame a frame fault is applied to, the next frame
+     * after `at` is affected. Defaults to `in`.
+     */
+    direction?: FrameDirection;
+}
+
+export interface IFaultInjectionOptions {
+    /**
+     * The probability, from 0 to 1, of each fault being applied to a frame. The
+     * rates together should not add up to more than 1.
+     */
+    rates?: Partial<Record<Fault, number>>;
+    /**
+     * The frames random faults are applied to. Defaults to `both`.
+     */
+    direction?: FrameDirection | 'both';
+    /**
+     * The longest a delayed or reordered frame is held back, in milliseconds.
+     * Defaults to 1000.
+     */
+    maxDelay?: number;
+    /**
+     * The close codes `close` faults pick from. Defaults to 1011, 1012 and 4000.
+     */
+    closeCodes?: number[];
+    /**
+     * Faults injected at fixed times.
+     */
+    schedule?: IScheduledFault[];
+    /**
+     * The source of randomness, returning numbers from 0 to 1. Defaults to
+     * Math.random, replace it to make runs repeatable.
+     */
+    random?: () => number;
+}
+
+/**
+ * Describes a fault the transport injected, emitted as `fault`.
+ */
+export interface IInjectedFault {
+    fault: Fault;
+    /**
+     * The connection the fault was injected on, counting from 1.
+     */
+    connection: number;
+    direction?: FrameDirection;
+    code?: number;
+}
+
+const defaultOptions: IFaultInjectionOptions = {
+    rates: {},
+    direction: 'both',
+    maxDelay: 1000,
+    closeCodes: [1011, 1012, 4000],
+    schedule: [],
+    random: Math.random,
+};
+
+// Faults in the order random rates are checked.
+const faults: Fault[] = [
+    'drop',
+    'delay',
+    'duplicate',
+    'reorder',
+    'corrupt',
+    'close',
+];
+
+/**
+ * Returns a copy of the frame which can no longer be parsed.
+ */
+function corrupt(data: any, random: () => number): any {
+    if (typeof data === 'string') {
+        return data.slice(0, Math.floor(random() * data.length)) + '\u0000';
+    }
+    const isView = ArrayBuffer.isView(data);
+    const bytes = new Uint8Array(
+        isView
+            ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+            : new Uint8Array(data),
+    );
+    const index = Math.floor(random() * bytes.length);
+    bytes[index] = 0xff - bytes[index];
+    return isView ? bytes : bytes.buffer;
+}
+
+/**
+ * The FaultySocket wraps a socket of the transport's inner WebSocket, passing
+ * frames through it with faults applied.
+ */
+class FaultySocket extends MemorySocket {
+    private socket: any;
+    private closed = false;
+    private timers = new Set<NodeJS.Timer>();
+    // Scheduled frame faults waiting for the next frame.
+    private pending: { [direction: string]: Fault[] } = { in: [], out: [] };
+    // Frames held back to be delivered after the next one.
+    private held: { [direction: string]: any[] } = { in: [], out: [] };
+
+    constructor(
+        private transport: FaultInjectionTransport,
+        private connection: number,
+        args: any[],
+    ) {
+        super();
+        this.socket = new transport.inner(...args);
+        this.socket.addEventListener('open', () => {
+            this.dispatch('open', {});
+            this.scheduleFaults();
+        });
+        this.socket.addEventListener('message', (evt: any) =>
+            this.pass('in', evt.data),
+        );
+        this.socket.addEventListener('error', (err: any) =>
+            this.dispatch('error', err),
+        );
+        this.socket.addEventListener('close', (evt: any) => {
+            if (!this.closed) {
+                this.stop();
+                this.dispatch('close', evt);
+            }
+        });
+    }
+
+    public get binaryType(): string {
+        return this.socket.binaryType;
+    }
+
+    public set binaryType(binaryType: string) {
+        this.socket.binaryType = binaryType;
+    }
+
+    public send(payload: string | Uint8Array) {
+        this.pass('out', payload);
+    }
+
+    public close(code?: number, reason?: string) {
+        this.socket.close(code, reason);
+    }
+
+    private scheduleFaults() {
+        this.transport
+            .getOptions()
+            .schedule.filter(
+                scheduled =>
+                    scheduled.connection === undefined ||
+                    scheduled.connection === this.connection,
+            )
+            .forEach(scheduled =>
+                this.later(scheduled.at, () => {
+                    if (scheduled.fault === 'close') {
+                        this.forceClose(scheduled.code);
+                    } else {
+                        this.pending[scheduled.direction || 'in'].push(
+                            scheduled.fault,
+                        );
+                    }
+                }),
+            );
+    }
+
+    /**
+     * Picks a fault for the next frame in the given direction, scheduled faults
+     * first and then by the configured rates.
+     */
+    private pickFault(direction: FrameDirection): Fault {
+        if (this.pending[direction].length) {
+            return this.pending[direction].shift();
+        }
+        const options = this.transport.getOptions();
+        if (options.direction !== 'both' && options.direction !== direction) {
+            return null;
+        }
+        const roll = options.random();
+        let threshold = 0;
+        for (const fault of faults) {
+            threshold += options.rates[fault] || 0;
+            if (roll < threshold) {
+                return fault;
+            }
+        }
+        return null;
+    }
+
+    private pass(direction: FrameDirection, data: any) {
+        if (this.closed) {
+            return;
+        }
+        const fault = this.pickFault(direction);
+        if (!fault) {
+            this.forward(direction, data);
+            return;
+        }
+
+        const options = this.transport.getOptions();
+        if (fault !== 'close') {
+            this.transport.emit(
+                'fault',
+                <IInjectedFault>{
+                    fault,
+                    direction,
+                    connection: this.connection,
+                },
+            );
+        }
+        switch (fault) {
+            case 'drop':
+                break;
+            case 'delay':
+                this.later(options.random() * options.maxDelay, () =>
+                    this.forward(direction, data),
+                );
+                break;
+            case 'duplicate':
+                this.forward(direction, data);
+                this.forward(direction, data);
+                break;
+            case 'reorder':
+                // Delivered after the next frame, or on its own if none comes.
+                this.held[direction].push(data);
+                this.later(options.maxDelay, () => this.release(direction));
+                break;
+            case 'corrupt':
+                this.forward(direction, corrupt(data, options.random));
+                break;
+            default:
+                this.forceClose();
+        }
+    }
+
+    private forward(direction: FrameDirection, data: any) {
+        if (this.closed) {
+            return;
+        }
+        if (direction === 'in') {
+            this.dispatch('message', { data });
+        } else {
+            this.socket.send(data);
+        }
+        this.release(direction);
+    }
+
+    private release(direction: FrameDirection) {
+        const held = this.held[direction];
+        this.held[direction] = [];
+        held.forEach(data => this.forward(direction, data));
+    }
+
+    private later(delay: number, action: () => void) {
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            action();
+        }, delay);
+        this.timers.add(timer);
+    }
+
+    private stop() {
+        this.closed = true;
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+    }
+
+    /**
+     * Closes the connection as if the server had closed it with the given code.
+     */
+    private forceClose(code?: number) {
+        const options = this.transport.getOptions();
+        if (code === undefined) {
+            const codes = options.closeCodes;
+            code = codes[Math.floor(options.random() * codes.length)];
+        }
+        this.transport.emit(
+            'fault',
+            <IInjectedFault>{
+                fault: 'close',
+                connection: this.connection,
+                code,
+            },
+        );
+        this.stop();
+        this.socket.close();
+        this.dispatch('close', {
+            code,
+            reason: 'Injected fault.',
+            wasClean: false,
+        });
+    }
+}
+
+/**
+ * Returns a WebSocket constructor whose sockets inject the transport's faults.
+ */
+function bindWebSocket(transport: FaultInjectionTransport): any {
+    let connections = 0;
+    return class extends FaultySocket {
+        constructor(...args: any[]) {
+            super(transport, ++connections, args);
+        }
+    };
+}
+
+/**
+ * The FaultInjectionTransport wraps another WebSocket implementation, such as
+ * `ws` or a [LoopbackTransport]{@link LoopbackTransport}'s, and injects the
+ * faults of a bad network into its connections. Frames in either direction can
+ * be dropped, delayed, duplicated, reordered or corrupted, and connections can
+ * be closed with codes such as 1011, 1012 or 4xxx, either at random by the
+ * configured rates or at fixed times.
+ *
+ * Corrupted frames from the server no longer parse. The InteractiveSocket drops
+ * them and emits `error` with a MessageParseError, which clients re-emit.
+ *
+ * The transport emits `fault` with an [IInjectedFault]{@link IInjectedFault}
+ * for each fault it injects.
+ *
+ * @example
+ * const faults = new FaultInjectionTransport(require('ws'), {
+ *     rates: { drop: 0.01, delay: 0.05 },
+ *     schedule: [{ at: 5000, fault: 'close', code: 1012, connection: 1 }],
+ * });
+ * Interactive.setWebSocket(faults.WebSocket);
+ */
+export class FaultInjectionTransport extends EventEmitter {
+    /**
+     * A WebSocket constructor which injects faults, pass it to
+     * [setWebSocket]{@link setWebSocket}.
+     */
+    //tslint:disable-next-line:variable-name
+    public readonly WebSocket: any;
+
+    private options: IFaultInjectionOptions;
+
+    constructor(
+        public readonly inner: any,
+        options: IFaultInjectionOptions = {},
+    ) {
+        super();
+        this.options = Object.assign({}, defaultOptions);
+        this.setOptions(options);
+        this.WebSocket = bindWebSocket(this);
+    }
+
+    /**
+     * Changes the faults injected from now on, for example to let a client
+     * recover once a test is done disrupting it.
+     */
+    public setOptions(options: IFaultInjectionOptions) {
+        Object.assign(this.options, options);
+    }
+
+    public getOptions(): IFaultInjectionOptions {
+        return this.options;
+    }
+}
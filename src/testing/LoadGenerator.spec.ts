@@ -0,0 +1,131 @@
+import { expect } from 'chai';
+
+import { GameClient } from '../GameClient';
+import { Button } from '../state/controls';
+import { IButtonData, IJoystickData } from '../state/interfaces';
+import { delay } from '../util';
+import { InteractiveSocket } from '../wire/Socket';
+import { LoadGenerator } from './LoadGenerator';
+import { LoopbackTransport } from './LoopbackTransport';
+
+describe('load generator', () => {
+    let webSocket: any;
+    let loopback: LoopbackTransport;
+    let client: GameClient;
+    let load: LoadGenerator;
+
+    beforeEach(() => {
+        webSocket = InteractiveSocket.WebSocket;
+        loopback = new LoopbackTransport();
+        InteractiveSocket.WebSocket = loopback.WebSocket;
+        client = new GameClient();
+        return client
+            .open({
+                versionId: 1234,
+                authToken: 'token',
+                endpoints: [{ address: 'ws://loopback/gameClient' }],
+            })
+            .then(() =>
+                client.createControls({
+                    sceneID: 'default',
+                    controls: [
+                        <IButtonData>{
+                            controlID: 'button',
+                            kind: 'button',
+                            keyCode: 32,
+                        },
+                        <IButtonData>{
+                            controlID: 'disabled',
+                            kind: 'button',
+                            disabled: true,
+                        },
+                        <IJoystickData>{
+                            controlID: 'joystick',
+                            kind: 'joystick',
+                            sampleRate: 10,
+                        },
+                    ],
+                }),
+            );
+    });
+
+    afterEach(() => {
+        load.stop();
+        client.close();
+        InteractiveSocket.WebSocket = webSocket;
+    });
+
+    it('presses buttons and moves joysticks as several participants', () => {
+        const events: { [controlID: string]: string[] } = {};
+        ['button', 'disabled', 'joystick'].forEach(id => {
+            events[id] = [];
+            ['mousedown', 'keydown', 'move'].forEach(event =>
+                client.state
+                    .getControl(id)
+                    .on(event, () => events[id].push(event)),
+            );
+        });
+
+        load = new LoadGenerator({
+            participants: 3,
+            url: 'ws://loopback/participant',
+            pressRate: 100,
+        });
+        load.start();
+
+        return delay(200).then(() => {
+            const stats = load.getStats();
+            expect(stats.connected).to.equal(3);
+            expect(stats.errors).to.equal(0);
+            expect(stats.inputs).to.be.above(0);
+            expect(loopback.server.getParticipants()).to.have.length(3);
+            expect(events['button']).to.not.be.empty;
+            expect(events['joystick']).to.include('move');
+            expect(events['disabled']).to.be.empty;
+        });
+    });
+
+    it('holds off pressing buttons until their cooldown expires', () => {
+        const button = <Button>client.state.getControl('button');
+        const presses: number[] = [];
+        ['mousedown', 'keydown'].forEach(event =>
+            button.on(event, () => presses.push(Date.now())),
+        );
+
+        let expiry: number;
+        return button
+            .setCooldown(150)
+            .then(() => {
+                expiry = Date.now() + 150;
+                load = new LoadGenerator({
+                    participants: 2,
+                    url: 'ws://loopback/participant',
+                    pressRate: 100,
+                    moveJoysticks: false,
+                });
+                load.start();
+                return delay(300);
+            })
+            .then(() => {
+                expect(presses).to.not.be.empty;
+                expect(presses[0]).to.be.at.least(expiry - 20);
+            });
+    });
+
+    it('leaves and rejoins on a schedule', () => {
+        load = new LoadGenerator({
+            participants: 2,
+            url: 'ws://loopback/participant',
+            pressRate: 0,
+            sessionLength: 20,
+            rejoinDelay: 10,
+        });
+        load.start();
+
+        return delay(200).then(() => {
+            const stats = load.getStats();
+            expect(stats.leaves).to.be.above(0);
+            expect(stats.joins).to.be.above(2);
+        });
+    });
+});
@@ -0,0 +1,338 @@
+import { EventEmitter } from 'events';
+
+import { ParticipantClient } from '../ParticipantClient';
+import { Button, Joystick } from '../state/controls';
+import { IControl } from '../state/interfaces/controls';
+
+export interface ILoadGeneratorOptions {
+    /**
+     * The number of participants to simulate. Defaults to 10.
+     */
+    participants?: number;
+    /**
+     * The participant url to connect to. Defaults to a
+     * [MockInteractiveServer]{@link MockInteractiveServer} listening on port 1339.
+     */
+    url?: string;
+    /**
+     * The access key participants connect with. Defaults to `load`.
+     */
+    key?: string;
+    /**
+     * Milliseconds between participants joining. Defaults to 10.
+     */
+    joinInterval?: number;
+    /**
+     * Milliseconds each participant stays connected before leaving, 0 to stay
+     * until the generator is stopped. Defaults to 0.
+     */
+    sessionLength?: number;
+    /**
+     * Milliseconds a participant waits to join again after leaving, or -1 to
+     * stay away. Defaults to 1000.
+     */
+    rejoinDelay?: number;
+    /**
+     * Button presses each participant makes per second, on average. Defaults to 1.
+     */
+    pressRate?: number;
+    /**
+     * The share of presses made with the keyboard on buttons with a `keyCode`,
+     * from 0 to 1. Defaults to 0.5.
+     */
+    keyboardRatio?: number;
+    /**
+     * Whether participants move joysticks. Defaults to true.
+     */
+    moveJoysticks?: boolean;
+}
+
+export interface ILoadStats {
+    /**
+     * Participants currently connected.
+     */
+    connected: number;
+    joins: number;
+    leaves: number;
+    /**
+     * Inputs sent by all participants.
+     */
+    inputs: number;
+    /**
+     * Inputs the server replied to with an error.
+     */
+    errors: number;
+}
+
+const defaultOptions: ILoadGeneratorOptions = {
+    participants: 10,
+    url: 'ws://127.0.0.1:1339/participant',
+    key: 'load',
+    joinInterval: 10,
+    sessionLength: 0,
+    rejoinDelay: 1000,
+    pressRate: 1,
+    keyboardRatio: 0.5,
+    moveJoysticks: true,
+};
+
+// Joysticks without a sample rate are moved this often, in milliseconds.
+const defaultSampleRate = 50;
+
+/**
+ * Returns a delay around the given mean, so participants don't act in lockstep.
+ */
+function jitter(mean: number): number {
+    return mean * (0.5 + Math.random());
+}
+
+/**
+ * A SimulatedParticipant connects a ParticipantClient and plays with its controls.
+ */
+class SimulatedParticipant {
+    private client: ParticipantClient = null;
+    private timers = new Set<NodeJS.Timer>();
+    private moving = new Set<string>();
+
+    constructor(private generator: LoadGenerator) {}
+
+    public join(): Promise<void> {
+        const options = this.generator.getOptions();
+        this.client = new ParticipantClient();
+        this.client.on('error', (err: Error) =>
+            this.generator.emit('participantError', err),
+        );
+        return this.client
+            .open({ url: options.url, key: options.key })
+            .then(() => this.client.synchronizeScenes())
+            .then(() => {
+                if (options.pressRate > 0) {
+                    this.schedule(1000 / options.pressRate, () => this.press());
+                }
+                this.moveJoysticks();
+            });
+    }
+
+    public leave() {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.moving.clear();
+        if (this.client) {
+            this.client.close();
+            this.client = null;
+        }
+    }
+
+    /**
+     * Calls the action repeatedly, about the given number of milliseconds apart,
+     * until the participant leaves or the action returns false.
+     */
+    private schedule(interval: number, action: () => boolean | void) {
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            if (action() !== false) {
+                this.schedule(interval, action);
+            }
+        }, jitter(interval));
+        this.timers.add(timer);
+    }
+
+    private getControls(): IControl[] {
+        const controls: IControl[] = [];
+        this.client.state
+            .getScenes()
+            .forEach(scene => controls.push(...scene.getControls()));
+        return controls.filter(control => !control.disabled);
+    }
+
+    /**
+     * Presses and releases a random button which isn't cooling down.
+     */
+    private press() {
+        const now = this.client.state.synchronizeLocalTime().getTime();
+        const buttons = <Button[]>this.getControls().filter(
+            control =>
+                control instanceof Button &&
+                !(control.cooldown && control.cooldown > now),
+        );
+        this.moveJoysticks();
+        if (buttons.length === 0) {
+            return;
+        }
+
+        const button = buttons[Math.floor(Math.random() * buttons.length)];
+        const options = this.generator.getOptions();
+        if (button.keyCode && Math.random() < options.keyboardRatio) {
+            this.send(button, { event: 'keydown' });
+            this.send(button, { event: 'keyup' });
+        } else {
+            this.send(button, { event: 'mousedown', button: 0 });
+            this.send(button, { event: 'mouseup', button: 0 });
+        }
+    }
+
+    /**
+     * Starts moving any joysticks which aren't moving yet, each at its sample rate.
+     */
+    private moveJoysticks() {
+        if (!this.generator.getOptions().moveJoysticks) {
+            return;
+        }
+        this.getControls()
+            .filter(control => control instanceof Joystick)
+            .filter(control => !this.moving.has(control.controlID))
+            .forEach((joystick: Joystick) => {
+                const id = joystick.controlID;
+                let angle = Math.random() * 2 * Math.PI;
+                this.moving.add(id);
+                this.schedule(joystick.sampleRate || defaultSampleRate, () => {
+                    if (this.client.state.getControl(id) !== joystick) {
+                        this.moving.delete(id);
+                        return false;
+                    }
+                    angle += (Math.random() - 0.5) * Math.PI / 4;
+                    const intensity = Math.random();
+                    this.send(joystick, {
+                        event: 'move',
+                        x: Math.cos(angle) * intensity,
+                        y: Math.sin(angle) * intensity,
+                    });
+                    return true;
+                });
+            });
+    }
+
+    private send(control: IControl, input: any) {
+        this.generator.countInput();
+        control
+            .giveInput(input)
+            .catch((err: Error) => this.generator.countError(err));
+    }
+}
+
+/**
+ * The LoadGenerator simulates participants connecting to an Interactive session,
+ * to load test a GameClient's logic. Each participant presses random buttons,
+ * skipping those which are disabled or cooling down and sometimes using their
+ * `keyCode`, and moves joysticks at their `sampleRate`. Participants join one
+ * after the other and can leave and rejoin on a schedule.
+ *
+ * It connects to a [MockInteractiveServer]{@link MockInteractiveServer} on the
+ * local machine by default, and uses the WebSocket given to
+ * [setWebSocket]{@link setWebSocket}.
+ *
+ * The generator emits `participantError` with errors from participant sockets
+ * and `inputError` with inputs the server rejected.
+ *
+ * @example
+ * import { LoadGenerator } from 'beam-interactive-node2/lib/testing/LoadGenerator';
+ *
+ * const load = new LoadGenerator({ participants: 1000, pressRate: 5 });
+ * load.start();
+ * setInterval(() => console.log(load.getStats()), 1000);
+ */
+export class LoadGenerator extends EventEmitter {
+    private options: ILoadGeneratorOptions;
+    private participants: SimulatedParticipant[] = [];
+    private timers = new Set<NodeJS.Timer>();
+    private running = false;
+    private stats: ILoadStats = {
+        connected: 0,
+        joins: 0,
+        leaves: 0,
+        inputs: 0,
+        errors: 0,
+    };
+
+    constructor(options: ILoadGeneratorOptions = {}) {
+        super();
+        this.options = Object.assign({}, defaultOptions, options);
+    }
+
+    public getOptions(): ILoadGeneratorOptions {
+        return this.options;
+    }
+
+    /**
+     * Returns counters for the participants and inputs simulated so far.
+     */
+    public getStats(): ILoadStats {
+        return { ...this.stats };
+    }
+
+    /**
+     * Starts joining participants.
+     */
+    public start() {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+        for (let i = 0; i < this.options.participants; i++) {
+            const participant = new SimulatedParticipant(this);
+            this.participants.push(participant);
+            this.after(i * this.options.joinInterval, () =>
+                this.join(participant),
+            );
+        }
+    }
+
+    /**
+     * Disconnects every participant and cancels scheduled joins.
+     */
+    public stop() {
+        this.running = false;
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.participants.forEach(participant => participant.leave());
+        this.participants = [];
+        this.stats.connected = 0;
+    }
+
+    public countInput() {
+        this.stats.inputs++;
+    }
+
+    public countError(err: Error) {
+        this.stats.errors++;
+        this.emit('inputError', err);
+    }
+
+    private after(delay: number, action: () => void) {
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            action();
+        }, delay);
+        this.timers.add(timer);
+    }
+
+    private join(participant: SimulatedParticipant) {
+        this.stats.joins++;
+        participant
+            .join()
+            .then(() => {
+                if (!this.running) {
+                    return;
+                }
+                this.stats.connected++;
+                if (this.options.sessionLength > 0) {
+                    this.after(jitter(this.options.sessionLength), () =>
+                        this.leave(participant),
+                    );
+                }
+            })
+            .catch((err: Error) => {
+                this.emit('participantError', err);
+                participant.leave();
+            });
+    }
+
+    private leave(participant: SimulatedParticipant) {
+        participant.leave();
+        this.stats.connected--;
+        this.stats.leaves++;
+        if (this.options.rejoinDelay >= 0) {
+            this.after(this.options.rejoinDelay, () => this.join(participant));
+        }
+    }
+}
@@ -0,0 +1,83 @@
+import { expect } from 'chai';
+
+import { GameClient } from '../GameClient';
+import { ParticipantClient } from '../ParticipantClient';
+import { Button } from '../state/controls';
+import {
+    IButtonData,
+    IButtonInput,
+    IInputEvent,
+    IParticipant,
+} from '../state/interfaces';
+import { resolveOn } from '../util';
+import { InteractiveSocket } from '../wire/Socket';
+import { LoopbackTransport } from './LoopbackTransport';
+
+describe('loopback transport', () => {
+    let webSocket: any;
+    let loopback: LoopbackTransport;
+    let client: GameClient;
+    let participant: ParticipantClient;
+
+    beforeEach(() => {
+        webSocket = InteractiveSocket.WebSocket;
+        loopback = new LoopbackTransport();
+        InteractiveSocket.WebSocket = loopback.WebSocket;
+        client = new GameClient();
+        participant = new ParticipantClient();
+
+        return client
+            .open({
+                versionId: 1234,
+                authToken: 'token',
+                endpoints: [{ address: 'ws://loopback/gameClient' }],
+            })
+            .then(() =>
+                client.createControls({
+                    sceneID: 'default',
+                    controls: [
+                        <IButtonData>{ controlID: 'button', kind: 'button' },
+                    ],
+                }),
+            )
+            .then(() =>
+                participant.open({
+                    url: 'ws://loopback/participant',
+                    key: 'key',
+                }),
+            )
+            .then(() => participant.synchronizeScenes());
+    });
+
+    afterEach(() => {
+        participant.close();
+        client.close();
+        InteractiveSocket.WebSocket = webSocket;
+    });
+
+    it('routes participant input to the game client', () => {
+        const input = resolveOn(client.state.getControl('button'), 'mousedown');
+        const button = <Button>participant.state.getControl('button');
+        button.giveInput({ event: 'mousedown', button: 0 });
+
+        return input.then((event: IInputEvent<IButtonInput>) => {
+            const sender: IParticipant = client.state.getParticipantBySessionID(
+                event.participantID,
+            );
+            expect(event.input.controlID).to.equal('button');
+            expect(sender).to.exist;
+        });
+    });
+
+    it('broadcasts group changes to participants', () => {
+        const created = resolveOn(participant.state, 'groupCreated');
+        return client
+            .createGroups({ groups: [{ groupID: 'red' }] })
+            .then(() => created)
+            .then(() => {
+                expect(participant.state.getGroup('red').sceneID).to.equal(
+                    'default',
+                );
+            });
+    });
+});
@@ -0,0 +1,116 @@
+import * as Url from 'url';
+
+import { MemorySocket } from '../wire/memorySocket';
+import {
+    IMockAcceptor,
+    IMockSession,
+    MockClientRole,
+    MockInteractiveServer,
+} from './MockInteractiveServer';
+
+/**
+ * The LoopbackWebSocket connects a single client to the transport's server,
+ * delivering frames asynchronously as a network would.
+ */
+class LoopbackWebSocket extends MemorySocket {
+    private session: IMockSession = null;
+    private closed = false;
+
+    constructor(server: IMockAcceptor, address: string) {
+        super();
+        const path = Url.parse(address).pathname || '';
+        const role: MockClientRole =
+            path.indexOf('/participant') === 0 ? 'participant' : 'gameClient';
+
+        setTimeout(() => {
+            this.dispatch('open', {});
+            this.session = server.accept(
+                {
+                    send: data =>
+                        setTimeout(() => {
+                            if (!this.closed) {
+                                this.dispatch('message', { data });
+                            }
+                        }, 0),
+                    close: (code, reason) => this.finish(code, reason),
+                },
+                role,
+            );
+        }, 0);
+    }
+
+    public send(payload: string | Uint8Array) {
+        // Compression is never negotiated with the mock server.
+        if (typeof payload === 'string') {
+            setTimeout(() => this.session.receive(payload), 0);
+        }
+    }
+
+    public close(code: number = 1000, reason: string = '') {
+        if (this.session) {
+            this.session.disconnect();
+        }
+        this.finish(code, reason);
+    }
+
+    private finish(code: number, reason: string) {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        setTimeout(
+            () => this.dispatch('close', { code, reason, wasClean: true }),
+            0,
+        );
+    }
+}
+
+/**
+ * Returns a WebSocket constructor whose sockets connect to the given server.
+ */
+function bindWebSocket(server: IMockAcceptor): any {
+    return class extends LoopbackWebSocket {
+        constructor(address: string) {
+            super(server, address);
+        }
+    };
+}
+
+/**
+ * The LoopbackTransport connects GameClients and ParticipantClients in the same
+ * process through a [MockInteractiveServer]{@link MockInteractiveServer}, which
+ * mediates between them: participant input is routed to GameClients, and scene,
+ * control and group changes are broadcast to participants. No ports are opened.
+ *
+ * Clients connecting to a url whose path starts with `/participant` join as
+ * participants, all others as GameClients. Use [forServer]{@link LoopbackTransport.forServer}
+ * to connect clients to another server stand-in instead.
+ *
+ * @example
+ * const loopback = new LoopbackTransport();
+ * Interactive.setWebSocket(loopback.WebSocket);
+ * gameClient.open({ versionId: 1, authToken: 'token', endpoints: [{ address: 'ws://loopback/gameClient' }] });
+ * participant.open({ url: 'ws://loopback/participant', key: 'key' });
+ */
+export class LoopbackTransport {
+    /**
+     * A WebSocket constructor which connects to the server in memory, pass it to
+     * [setWebSocket]{@link setWebSocket}.
+     */
+    //tslint:disable-next-line:variable-name
+    public readonly WebSocket: any;
+
+    constructor(
+        public readonly server: MockInteractiveServer = new MockInteractiveServer(),
+    ) {
+        this.WebSocket = bindWebSocket(server);
+    }
+
+    /**
+     * Returns a WebSocket constructor whose sockets connect in memory to another
+     * [IMockAcceptor]{@link IMockAcceptor}, such as a [ScriptedServer]{@link ScriptedServer}.
+     */
+    public static forServer(server: IMockAcceptor): any {
+        return bindWebSocket(server);
+    }
+}
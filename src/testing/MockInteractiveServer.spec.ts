@@ -0,0 +1,165 @@
+import { expect } from 'chai';
+import * as WebSocket from 'ws';
+
+import { setWebSocket } from '../';
+import { InteractiveError } from '../errors';
+import { GameClient } from '../GameClient';
+import { ParticipantClient } from '../ParticipantClient';
+import {
+    IButton,
+    IButtonData,
+    IButtonInput,
+    IInputEvent,
+} from '../state/interfaces';
+import { resolveOn } from '../util';
+import { MockInteractiveServer } from './MockInteractiveServer';
+
+setWebSocket(WebSocket);
+const port = process.env.SERVER_PORT || 1339;
+
+describe('mock interactive server', () => {
+    let server: MockInteractiveServer;
+    let client: GameClient;
+
+    beforeEach(() => {
+        server = new MockInteractiveServer();
+        client = new GameClient();
+        return server.listen(Number(port), WebSocket).then(() =>
+            client.open({
+                versionId: 1234,
+                authToken: 'token',
+                endpoints: [{ address: `ws://127.0.0.1:${port}/gameClient` }],
+            }),
+        );
+    });
+
+    afterEach(() => {
+        client.close();
+        return server.close();
+    });
+
+    it('creates and updates controls, broadcasting them to participants', () => {
+        const participant = new ParticipantClient();
+        return participant
+            .open({ url: `ws://127.0.0.1:${port}/participant`, key: 'key' })
+            .then(() =>
+                client.createControls({
+                    sceneID: 'default',
+                    controls: [
+                        <IButtonData>{
+                            controlID: 'button',
+                            kind: 'button',
+                            text: 'a',
+                        },
+                    ],
+                }),
+            )
+            .then(() => participant.synchronizeScenes())
+            .then(() => {
+                const updated = resolveOn(
+                    participant.state.getControl('button'),
+                    'updated',
+                );
+                const button = <IButton>client.state.getControl('button');
+                return Promise.all([updated, button.setText('b')]);
+            })
+            .then(() => {
+                expect(
+                    (<IButton>participant.state.getControl('button')).text,
+                ).to.equal('b');
+                expect(
+                    (<IButtonData>server.getScene('default').controls[0]).text,
+                ).to.equal('b');
+                participant.close();
+            });
+    });
+
+    it('injects participants and input, and captures their transactions', () => {
+        return client
+            .createControls({
+                sceneID: 'default',
+                controls: [{ controlID: 'button', kind: 'button' }],
+            })
+            .then(() => {
+                const joined = resolveOn(client.state, 'participantJoin');
+                const participant = server.addParticipant({ username: 'bob' });
+                return joined.then(() => participant);
+            })
+            .then(participant => {
+                expect(
+                    client.state.getParticipantByUsername('bob').sessionID,
+                ).to.equal(participant.sessionID);
+                const input = resolveOn(
+                    client.state.getControl('button'),
+                    'mousedown',
+                );
+                server.giveInput(
+                    participant.sessionID,
+                    { controlID: 'button', event: 'mousedown' },
+                    true,
+                );
+                return input;
+            })
+            .then((event: IInputEvent<IButtonInput>) =>
+                client
+                    .captureTransaction(event.transactionID)
+                    .then(() =>
+                        client
+                            .captureTransaction(event.transactionID)
+                            .then(() => expect.fail())
+                            .catch(err =>
+                                expect(err).to.be.an.instanceof(
+                                    InteractiveError.InvalidTransactionId,
+                                ),
+                            ),
+                    ),
+            );
+    });
+});
+
+describe('mock interactive server errors', () => {
+    let server: MockInteractiveServer;
+    let socket: WebSocket;
+
+    beforeEach(() => {
+        server = new MockInteractiveServer();
+        return server.listen(Number(port), WebSocket).then(() => {
+            socket = new WebSocket(`ws://127.0.0.1:${port}/gameClient`);
+            return resolveOn(socket, 'open');
+        });
+    });
+
+    afterEach(() => {
+        socket.close();
+        return server.close();
+    });
+
+    it('replies with an error when a method cannot be handled', done => {
+        socket.on('message', (data: string) => {
+            const packet = JSON.parse(data);
+            if (packet.type !== 'reply') {
+                return;
+            }
+            expect(packet.id).to.equal(1);
+            expect(packet.error.code).to.equal(4004);
+            done();
+        });
+        socket.send(
+            JSON.stringify({
+                type: 'method',
+                id: 1,
+                method: 'updateControls',
+                params: null,
+                discard: false,
+            }),
+        );
+    });
+
+    it('disconnects clients which send invalid JSON', done => {
+        socket.on('close', (code: number) => {
+            expect(code).to.equal(4000);
+            done();
+        });
+        socket.send('{"type":');
+    });
+});
@@ -0,0 +1,511 @@
+import { EventEmitter } from 'events';
+
+import { InteractiveError } from '../errors';
+import { merge } from '../merge';
+import { MethodHandlerManager } from '../methods/MethodHandlerManager';
+import { MethodParams, ProtocolMethod } from '../methods/methodTypes';
+import {
+    IControlData,
+    IInput,
+    IInputEvent,
+} from '../state/interfaces/controls';
+import { IGroupData } from '../state/interfaces/IGroup';
+import { IParticipant } from '../state/interfaces/IParticipant';
+import { ISceneData } from '../state/interfaces/IScene';
+import { Method, Reply } from '../wire/packets';
+
+/**
+ * The kind of client connected to the mock server.
+ */
+export type MockClientRole = 'gameClient' | 'participant';
+
+/**
+ * A connection to a client, as seen by the mock server.
+ */
+export interface IMockConnection {
+    send(data: string): void;
+    close(code: number, reason: string): void;
+}
+
+/**
+ * A client session on the mock server. The transport hands it frames from the
+ * client and tells it when the client disconnects.
+ */
+export interface IMockSession {
+    receive(data: string): void;
+    disconnect(): void;
+}
+
+/**
+ * Accepts client connections from a transport, such as the
+ * [LoopbackTransport]{@link LoopbackTransport}.
+ */
+export interface IMockAcceptor {
+    accept(connection: IMockConnection, role: MockClientRole): IMockSession;
+}
+
+interface ISession {
+    connection: IMockConnection;
+    role: MockClientRole;
+    handler: MethodHandlerManager;
+    seq: number;
+    participant: IParticipant;
+}
+
+/**
+ * The MockInteractiveServer speaks the server side of the Interactive 2 protocol,
+ * so clients can be tested and developed against it without the real service.
+ *
+ * GameClients can create and update scenes, controls and groups, update participants,
+ * capture transactions and set the ready state. Participants are sent the
+ * matching `on*` events. Tests can add and remove participants and send
+ * `giveInput` events to GameClients on their behalf.
+ *
+ * The server emits `method` with each method it receives and the role of the
+ * client which sent it.
+ *
+ * @example
+ * const server = new MockInteractiveServer();
+ * server.listen(1339, require('ws')).then(() => {
+ *     return client.open({ versionId: 1, authToken: 'token', endpoints: [{ address: 'ws://localhost:1339/gameClient' }] });
+ * });
+ */
+export class MockInteractiveServer extends EventEmitter
+    implements IMockAcceptor {
+    private scenes = new Map<string, ISceneData>();
+    private groups = new Map<string, IGroupData>();
+    private participants = new Map<string, IParticipant>();
+    private transactions = new Set<string>();
+    private sessions = new Set<ISession>();
+    private ready = false;
+    private participantCount = 0;
+    private transactionCount = 0;
+    private wsServer: any = null;
+
+    constructor() {
+        super();
+        this.reset();
+    }
+
+    /**
+     * Clears the server's state, leaving only the default scene and group.
+     */
+    public reset() {
+        this.scenes.clear();
+        this.groups.clear();
+        this.participants.clear();
+        this.transactions.clear();
+        this.ready = false;
+        this.scenes.set('default', { sceneID: 'default', controls: [] });
+        this.groups.set('default', { groupID: 'default', sceneID: 'default' });
+    }
+
+    /**
+     * Starts accepting websocket connections on the given port, using the given
+     * `ws` module. Clients connecting to a path starting with `/participant` are
+     * treated as participants, all others as GameClients.
+     */
+    public listen(port: number, ws: any): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            this.wsServer = new ws.Server({ port }, () => resolve());
+            this.wsServer.once('error', reject);
+            this.wsServer.on('connection', (socket: any, req: any) => {
+                const url: string = (req || socket.upgradeReq).url;
+                const session = this.accept(
+                    {
+                        send: data => socket.send(data),
+                        close: (code, reason) => socket.close(code, reason),
+                    },
+                    url.indexOf('/participant') === 0
+                        ? 'participant'
+                        : 'gameClient',
+                );
+                socket.on('message', (data: any) =>
+                    session.receive(String(data)),
+                );
+                socket.on('close', () => session.disconnect());
+            });
+        });
+    }
+
+    /**
+     * Disconnects every client and stops listening.
+     */
+    public close(): Promise<void> {
+        this.sessions.forEach(session =>
+            session.connection.close(1000, 'Server closed.'),
+        );
+        this.sessions.clear();
+        if (!this.wsServer) {
+            return Promise.resolve();
+        }
+        const server = this.wsServer;
+        this.wsServer = null;
+        return new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    /**
+     * Accepts a client connection in the given role, greeting it with `hello`.
+     * Participants are added to the session and announced to GameClients.
+     */
+    public accept(
+        connection: IMockConnection,
+        role: MockClientRole,
+    ): IMockSession {
+        const session: ISession = {
+            connection,
+            role,
+            handler: null,
+            seq: 0,
+            participant: null,
+        };
+        session.handler = this.createHandler(session);
+        this.sessions.add(session);
+        this.send(session, new Method('hello', {}, true));
+
+        if (role === 'participant') {
+            session.participant = this.addParticipant();
+            this.send(
+                session,
+                new Method(
+                    'onParticipantJoin',
+                    { participants: [session.participant] },
+                    true,
+                ),
+            );
+        }
+
+        return {
+            receive: data => this.receive(session, data),
+            disconnect: () => this.disconnect(session),
+        };
+    }
+
+    /**
+     * Adds a participant to the session and announces it to GameClients.
+     */
+    public addParticipant(data: Partial<IParticipant> = {}): IParticipant {
+        const id = ++this.participantCount;
+        const now = Date.now();
+        const participant: IParticipant = {
+            sessionID: `participant-${id}`,
+            userID: id,
+            username: `participant${id}`,
+            level: 1,
+            lastInputAt: now,
+            connectedAt: now,
+            disabled: false,
+            groupID: 'default',
+            meta: {},
+            ...data,
+        };
+        this.participants.set(participant.sessionID, participant);
+        this.broadcast('gameClient', 'onParticipantJoin', {
+            participants: [participant],
+        });
+        return participant;
+    }
+
+    /**
+     * Removes a participant from the session and announces it to GameClients.
+     */
+    public removeParticipant(sessionID: string) {
+        const participant = this.participants.get(sessionID);
+        if (!participant) {
+            return;
+        }
+        this.participants.delete(sessionID);
+        this.broadcast('gameClient', 'onParticipantLeave', {
+            participants: [participant],
+        });
+    }
+
+    /**
+     * Sends input to GameClients on behalf of a participant. If `createTransaction`
+     * is true the input carries a transaction id, which GameClients may capture.
+     * Returns the transaction id, if one was created.
+     */
+    public giveInput(
+        participantID: string,
+        input: IInput,
+        createTransaction: boolean = false,
+    ): string {
+        const participant = this.participants.get(participantID);
+        if (participant) {
+            participant.lastInputAt = Date.now();
+        }
+        const transactionID = createTransaction
+            ? `transaction-${++this.transactionCount}`
+            : undefined;
+        if (transactionID) {
+            this.transactions.add(transactionID);
+        }
+        this.broadcast('gameClient', 'giveInput', {
+            participantID,
+            input,
+            transactionID,
+        });
+        return transactionID;
+    }
+
+    public getScenes(): ISceneData[] {
+        return Array.from(this.scenes.values());
+    }
+
+    public getScene(sceneID: string): ISceneData {
+        return this.scenes.get(sceneID);
+    }
+
+    public getGroups(): IGroupData[] {
+        return Array.from(this.groups.values());
+    }
+
+    public getParticipants(): IParticipant[] {
+        return Array.from(this.participants.values());
+    }
+
+    public isReady(): boolean {
+        return this.ready;
+    }
+
+    private createHandler(session: ISession): MethodHandlerManager {
+        const handler = new MethodHandlerManager();
+        handler.addHandler('getTime', method =>
+            method.reply({ time: Date.now() }),
+        );
+        handler.addHandler('getScenes', method =>
+            method.reply({ scenes: this.getScenes() }),
+        );
+        handler.addHandler('getGroups', method =>
+            method.reply({ groups: this.getGroups() }),
+        );
+        // Frames are always sent as text.
+        handler.addHandler('setCompression', method =>
+            method.reply({ scheme: 'none' }),
+        );
+
+        if (session.role === 'participant') {
+            handler.addHandler('giveInput', (method: Method<IInput>) => {
+                this.giveInput(session.participant.sessionID, method.params);
+                return method.reply(null);
+            });
+            return handler;
+        }
+
+        this.addGameClientHandlers(handler);
+        this.addSceneHandlers(handler);
+        this.addGroupHandlers(handler);
+        return handler;
+    }
+
+    private addGameClientHandlers(handler: MethodHandlerManager) {
+        handler.addHandler('ready', method => {
+            this.ready = method.params.isReady;
+            this.broadcast(null, 'onReady', { isReady: this.ready });
+            return method.reply(null);
+        });
+        handler.addHandler('updateParticipants', method => {
+            method.params.participants.forEach(update => {
+                const participant = this.participants.get(update.sessionID);
+                if (!participant) {
+                    throw new InteractiveError.UnknownParticipant(
+                        `Participant ${update.sessionID} does not exist.`,
+                    );
+                }
+                merge(participant, update);
+                this.sessions.forEach(other => {
+                    if (other.participant === participant) {
+                        this.send(
+                            other,
+                            new Method(
+                                'onParticipantUpdate',
+                                { participants: [participant] },
+                                true,
+                            ),
+                        );
+                    }
+                });
+            });
+            return method.reply(null);
+        });
+        handler.addHandler('capture', method => {
+            const transactionID = method.params.transactionID;
+            if (!this.transactions.has(transactionID)) {
+                throw new InteractiveError.InvalidTransactionId(
+                    `Transaction ${transactionID} does not exist.`,
+                );
+            }
+            this.transactions.delete(transactionID);
+            return method.reply(null);
+        });
+    }
+
+    private addSceneHandlers(handler: MethodHandlerManager) {
+        handler.addHandler('createScenes', method => {
+            method.params.scenes.forEach(scene => {
+                if (this.scenes.has(scene.sceneID)) {
+                    throw new InteractiveError.SceneAlreadyExists(
+                        `Scene ${scene.sceneID} already exists.`,
+                    );
+                }
+            });
+            const scenes = method.params.scenes.map(scene => ({
+                controls: [],
+                ...scene,
+            }));
+            scenes.forEach(scene => this.scenes.set(scene.sceneID, scene));
+            this.broadcast('participant', 'onSceneCreate', { scenes });
+            return method.reply({ scenes });
+        });
+        handler.addHandler('createControls', method => {
+            const scene = this.findScene(method.params.sceneID);
+            method.params.controls.forEach(control => {
+                if (this.findControl(scene, control.controlID, false)) {
+                    throw new InteractiveError.ControlAlreadyExists(
+                        `Control ${control.controlID} already exists.`,
+                    );
+                }
+            });
+            scene.controls.push(...method.params.controls);
+            this.broadcast('participant', 'onControlCreate', method.params);
+            return method.reply(method.params);
+        });
+        handler.addHandler('updateControls', method => {
+            const scene = this.findScene(method.params.sceneID);
+            const controls = method.params.controls.map(update =>
+                merge(this.findControl(scene, update.controlID, true), update),
+            );
+            this.broadcast('participant', 'onControlUpdate', {
+                sceneID: scene.sceneID,
+                controls,
+            });
+            return method.reply(null);
+        });
+    }
+
+    private addGroupHandlers(handler: MethodHandlerManager) {
+        handler.addHandler('createGroups', method => {
+            method.params.groups.forEach(group => {
+                if (this.groups.has(group.groupID)) {
+                    throw new InteractiveError.GroupAlreadyExists(
+                        `Group ${group.groupID} already exists.`,
+                    );
+                }
+            });
+            const groups = method.params.groups.map(group => ({
+                sceneID: 'default',
+                ...group,
+            }));
+            groups.forEach(group => this.groups.set(group.groupID, group));
+            this.broadcast('participant', 'onGroupCreate', { groups });
+            return method.reply({ groups });
+        });
+        handler.addHandler('updateGroups', method => {
+            const groups = method.params.groups.map(update => {
+                const group = this.groups.get(update.groupID);
+                if (!group) {
+                    throw new InteractiveError.UnknownGroup(
+                        `Group ${update.groupID} does not exist.`,
+                    );
+                }
+                return merge(group, update);
+            });
+            this.broadcast('participant', 'onGroupUpdate', { groups });
+            return method.reply({ groups });
+        });
+    }
+
+    private findScene(sceneID: string): ISceneData {
+        const scene = this.scenes.get(sceneID);
+        if (!scene) {
+            throw new InteractiveError.UnknownSceneId(
+                `Scene ${sceneID} does not exist.`,
+            );
+        }
+        return scene;
+    }
+
+    private findControl(
+        scene: ISceneData,
+        controlID: string,
+        required: boolean,
+    ): IControlData {
+        const control = scene.controls.find(
+            existing => existing.controlID === controlID,
+        );
+        if (!control && required) {
+            throw new InteractiveError.UnknownControlId(
+                `Control ${controlID} does not exist.`,
+            );
+        }
+        return control;
+    }
+
+    private receive(session: ISession, data: string) {
+        let message: any;
+        try {
+            message = JSON.parse(data);
+        } catch (err) {
+            // Clients which send frames that cannot be read are disconnected.
+            session.connection.close(4000, 'Invalid payload.');
+            this.disconnect(session);
+            return;
+        }
+        if (message.type !== 'method') {
+            return;
+        }
+        const method = Method.fromSocket(message);
+        this.emit('method', method, session.role);
+
+        let reply: Reply | void;
+        try {
+            reply = session.handler.handle(method);
+        } catch (err) {
+            reply = Reply.fromError(
+                method.id,
+                err instanceof InteractiveError.Base
+                    ? err
+                    : new InteractiveError.InvalidMethodArguments(err.message),
+            );
+        }
+        if (reply && (!method.discard || reply.error)) {
+            this.send(session, reply);
+        }
+    }
+
+    private disconnect(session: ISession) {
+        this.sessions.delete(session);
+        if (session.participant) {
+            this.removeParticipant(session.participant.sessionID);
+        }
+    }
+
+    /**
+     * Sends a method to every client in the given role, or every client if
+     * no role is given. GameClients are sent the input event for `giveInput`,
+     * rather than the input a participant sends.
+     */
+    private broadcast<T extends IInput>(
+        role: MockClientRole,
+        method: 'giveInput',
+        params: IInputEvent<T>,
+    ): void;
+    private broadcast<K extends ProtocolMethod>(
+        role: MockClientRole,
+        method: K,
+        params: MethodParams<K>,
+    ): void;
+    private broadcast(role: MockClientRole, method: string, params: any) {
+        this.sessions.forEach(session => {
+            if (!role || session.role === role) {
+                this.send(session, new Method(method, params, true));
+            }
+        });
+    }
+
+    private send(session: ISession, packet: Method<any> | Reply) {
+        session.connection.send(
+            JSON.stringify({ ...packet, seq: ++session.seq }),
+        );
+    }
+}
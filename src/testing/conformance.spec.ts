@@ -0,0 +1,54 @@
+import { GameClient } from '../GameClient';
+import { ParticipantClient } from '../ParticipantClient';
+import { ExponentialReconnectionPolicy } from '../wire/reconnection';
+import { InteractiveSocket } from '../wire/Socket';
+import { describeConformance, ScriptedServer } from './conformance';
+import { LoopbackTransport } from './LoopbackTransport';
+
+describe('conformance suite', () => {
+    let webSocket: any;
+    const reconnectionPolicy = () => new ExponentialReconnectionPolicy(100, 10);
+
+    beforeEach(() => (webSocket = InteractiveSocket.WebSocket));
+    afterEach(() => (InteractiveSocket.WebSocket = webSocket));
+
+    function connect(server: ScriptedServer) {
+        InteractiveSocket.WebSocket = LoopbackTransport.forServer(server);
+    }
+
+    describeConformance('GameClient', {
+        createServer: () => new ScriptedServer(),
+        open: (server: ScriptedServer) => {
+            connect(server);
+            const client = new GameClient();
+            return client
+                .open({
+                    versionId: 1234,
+                    authToken: 'token',
+                    endpoints: [{ address: 'ws://loopback/gameClient' }],
+                })
+                .then(() => {
+                    client.setOptions({
+                        reconnectionPolicy: reconnectionPolicy(),
+                    });
+                    return client;
+                });
+        },
+    });
+
+    describeConformance('ParticipantClient', {
+        createServer: () => new ScriptedServer(),
+        open: (server: ScriptedServer) => {
+            connect(server);
+            const client = new ParticipantClient();
+            return client
+                .open({ url: 'ws://loopback/participant', key: 'key' })
+                .then(() => {
+                    client.setOptions({
+                        reconnectionPolicy: reconnectionPolicy(),
+                    });
+                    return client;
+                });
+        },
+    });
+});
@@ -0,0 +1,338 @@
+import * as assert from 'assert';
+
+import { InteractiveError, TimeoutError } from '../errors';
+import { IClient } from '../IClient';
+import { IRawValues } from '../interfaces';
+import { delay } from '../util';
+import { recoverableCloseCodes } from '../wire/socketTypes';
+import {
+    IMockAcceptor,
+    IMockConnection,
+    IMockSession,
+} from './MockInteractiveServer';
+
+/**
+ * A client's connection to a server stand-in, which the conformance suite
+ * scripts frame by frame.
+ */
+export interface IConformanceConnection {
+    /**
+     * Sends a raw frame to the client.
+     */
+    send(frame: IRawValues): void;
+    /**
+     * Resolves with the next frame the client sends which matches the filter,
+     * skipping others. Rejects with a TimeoutError if none arrives in time.
+     */
+    receive(filter: (frame: any) => boolean, timeout?: number): Promise<any>;
+    /**
+     * Closes the connection from the server's side with the given code.
+     */
+    close(code: number, reason: string): void;
+}
+
+/**
+ * A server stand-in the conformance suite connects clients to.
+ */
+export interface IConformanceServer {
+    /**
+     * Resolves with the next connection a client makes. Rejects with a
+     * TimeoutError if none is made in time.
+     */
+    nextConnection(timeout?: number): Promise<IConformanceConnection>;
+}
+
+/**
+ * Describes the client implementation and server stand-in under test.
+ */
+export interface IConformanceTarget {
+    /**
+     * Creates a server stand-in for a test.
+     */
+    createServer(): IConformanceServer;
+    /**
+     * Creates a client and opens it against the server. The client should
+     * reconnect promptly after a recoverable close, within a second.
+     */
+    open(server: IConformanceServer): Promise<IClient>;
+}
+
+const defaultTimeout = 1000;
+
+/**
+ * Queues values until they are taken, or hands them to whoever is waiting.
+ */
+class Queue<T> {
+    private values: T[] = [];
+    private waiting: ((value: T) => void)[] = [];
+
+    public push(value: T) {
+        if (this.waiting.length) {
+            this.waiting.shift()(value);
+        } else {
+            this.values.push(value);
+        }
+    }
+
+    /**
+     * Resolves with the next value, or rejects with a TimeoutError if none is
+     * pushed in time.
+     */
+    public next(message: string, wait: number): Promise<T> {
+        if (this.values.length) {
+            return Promise.resolve(this.values.shift());
+        }
+        const err = new TimeoutError(message);
+        return new Promise<T>((resolve, reject) => {
+            let timer: NodeJS.Timer;
+            const take = (value: T) => {
+                clearTimeout(timer);
+                resolve(value);
+            };
+            timer = setTimeout(() => {
+                this.waiting.splice(this.waiting.indexOf(take), 1);
+                reject(err);
+            }, wait);
+            this.waiting.push(take);
+        });
+    }
+}
+
+class ScriptedConnection implements IConformanceConnection {
+    private frames = new Queue<any>();
+
+    constructor(private connection: IMockConnection) {}
+
+    public push(data: string) {
+        this.frames.push(JSON.parse(data));
+    }
+
+    public send(frame: IRawValues) {
+        this.connection.send(JSON.stringify(frame));
+    }
+
+    public receive(
+        filter: (frame: any) => boolean,
+        wait: number = defaultTimeout,
+    ): Promise<any> {
+        return this.frames
+            .next('Expected the client to send a frame', wait)
+            .then(
+                frame => (filter(frame) ? frame : this.receive(filter, wait)),
+            );
+    }
+
+    public close(code: number, reason: string) {
+        this.connection.close(code, reason);
+    }
+}
+
+/**
+ * The ScriptedServer is a server stand-in which does nothing by itself, leaving
+ * the conformance suite to script each frame. Connect clients to it with
+ * [LoopbackTransport.forServer]{@link LoopbackTransport.forServer}.
+ */
+export class ScriptedServer implements IConformanceServer, IMockAcceptor {
+    private connections = new Queue<ScriptedConnection>();
+
+    public accept(connection: IMockConnection): IMockSession {
+        const scripted = new ScriptedConnection(connection);
+        this.connections.push(scripted);
+        return {
+            receive: data => scripted.push(data),
+            disconnect: () => undefined,
+        };
+    }
+
+    public nextConnection(
+        wait: number = defaultTimeout,
+    ): Promise<IConformanceConnection> {
+        return this.connections.next(
+            'Expected the client to connect to the server',
+            wait,
+        );
+    }
+}
+
+/**
+ * The client and connection under test, replaced before each test.
+ */
+interface ISuite {
+    server: IConformanceServer;
+    client: IClient;
+    connection: IConformanceConnection;
+}
+
+function isMethod(name: string) {
+    return (frame: any) => frame.type === 'method' && frame.method === name;
+}
+
+function isReply(frame: any) {
+    return frame.type === 'reply';
+}
+
+function method(id: number, discard: boolean, seq?: number): IRawValues {
+    return {
+        type: 'method',
+        id,
+        method: 'conformanceUnknown',
+        params: {},
+        discard,
+        seq,
+    };
+}
+
+function reply(
+    id: number,
+    result: IRawValues,
+    error: IRawValues = null,
+): IRawValues {
+    return { type: 'reply', id, result, error };
+}
+
+function expectRejection(promise: Promise<any>): Promise<any> {
+    return promise.then(() => {
+        throw new Error('Expected the promise to be rejected');
+    }, err => err);
+}
+
+/**
+ * Calls a method the client never calls by itself, resolving with the promise
+ * of its result and the method frame the server received.
+ */
+function call(suite: ISuite): Promise<[Promise<any>, any]> {
+    const result = suite.client.execute('getThrottleState', null, false);
+    // Keep unhandled rejection warnings out of the test output.
+    result.catch(() => undefined);
+    return suite.connection
+        .receive(isMethod('getThrottleState'))
+        .then(frame => <[Promise<any>, any]>[result, frame]);
+}
+
+function describeMethods(suite: ISuite) {
+    it('matches replies to methods by id', () =>
+        call(suite).then(([result, frame]) => {
+            suite.connection.send(reply(frame.id + 1, { call: 1 }));
+            suite.connection.send(reply(frame.id, { call: 2 }));
+            return result.then(res => assert.deepEqual(res, { call: 2 }));
+        }));
+
+    it('replies UnknownMethodName to unknown methods', () => {
+        suite.connection.send(method(1, false));
+        return suite.connection.receive(isReply).then(frame => {
+            assert.strictEqual(frame.id, 1);
+            assert.strictEqual(
+                InteractiveError.errors[frame.error.code],
+                InteractiveError.UnknownMethodName,
+            );
+        });
+    });
+
+    it('does not reply to unknown methods which are discarded', () => {
+        suite.connection.send(method(1, true));
+        suite.connection.send(method(2, false));
+        return suite.connection
+            .receive(isReply)
+            .then(frame => assert.strictEqual(frame.id, 2));
+    });
+
+    it('sends the last sequence number it received', () => {
+        suite.connection.send(method(1, true, 17));
+        return delay(10)
+            .then(() => call(suite))
+            .then(([, frame]) => assert.strictEqual(frame.seq, 17));
+    });
+
+    it('maps error replies to InteractiveError classes', () =>
+        call(suite)
+            .then(([result, frame]) => {
+                suite.connection.send(
+                    reply(frame.id, null, {
+                        code: 4010,
+                        message: 'Unknown scene',
+                    }),
+                );
+                return expectRejection(result);
+            })
+            .then(err => {
+                assert.ok(err instanceof InteractiveError.UnknownSceneId);
+                assert.strictEqual(err.message, 'Unknown scene');
+                return call(suite);
+            })
+            .then(([result, frame]) => {
+                suite.connection.send(
+                    reply(frame.id, null, { code: 4500, message: 'Unmapped' }),
+                );
+                return expectRejection(result);
+            })
+            .then(err => {
+                assert.ok(err instanceof InteractiveError.Base);
+                assert.strictEqual(err.code, 4500);
+            }));
+}
+
+function describeCloseCodes(suite: ISuite) {
+    it('reconnects after recoverable close codes', () =>
+        recoverableCloseCodes.reduce(
+            (previous, code) =>
+                previous.then(() => {
+                    suite.connection.close(code, 'Conformance');
+                    return suite.server
+                        .nextConnection()
+                        .then(opened => (suite.connection = opened));
+                }),
+            Promise.resolve(suite.connection),
+        ));
+
+    it('raises other close codes as errors and stays closed', () => {
+        const error = new Promise<Error>(resolve =>
+            suite.client.once('error', resolve),
+        );
+        suite.connection.close(4021, 'Conformance');
+        return error.then(err => {
+            assert.ok(err instanceof InteractiveError.SessionConflict);
+            return expectRejection(suite.server.nextConnection(500));
+        });
+    });
+}
+
+/**
+ * Registers mocha tests which check that a client implementation follows the
+ * Interactive protocol against a server stand-in: replies are matched to
+ * methods by id, unknown methods are answered with UnknownMethodName unless
+ * discarded, sequence numbers are sent back to the server, error replies are
+ * mapped to [InteractiveError]{@link InteractiveError} classes, and recoverable
+ * close codes lead to reconnections while others are raised as errors.
+ *
+ * @example
+ * describeConformance('GameClient', {
+ *     createServer: () => new ScriptedServer(),
+ *     open: server => {
+ *         Interactive.setWebSocket(LoopbackTransport.forServer(server));
+ *         const client = new GameClient();
+ *         return client.open({ ... }).then(() => client);
+ *     },
+ * });
+ */
+export function describeConformance(name: string, target: IConformanceTarget) {
+    describe(`${name} protocol conformance`, () => {
+        const suite = <ISuite>{};
+
+        beforeEach(() => {
+            suite.server = target.createServer();
+            const connected = suite.server.nextConnection();
+            return target
+                .open(suite.server)
+                .then(client => {
+                    suite.client = client;
+                    return connected;
+                })
+                .then(connection => (suite.connection = connection));
+        });
+
+        afterEach(() => suite.client.close());
+
+        describeMethods(suite);
+        describeCloseCodes(suite);
+    });
+}
@@ -1,12 +1,21 @@
 import { assert, expect, use } from 'chai';
+import * as lz4 from 'lz4js';
+import * as pako from 'pako';
 import * as sinon from 'sinon';
 import * as WebSocketModule from 'ws';
 
-import { CancelledError, TimeoutError } from '../errors';
+import { CancelledError, MessageParseError, TimeoutError } from '../errors';
+import { ISceneData } from '../state/interfaces';
 import { delay, resolveOn } from '../util';
 import { Method } from './packets';
 import { ExponentialReconnectionPolicy } from './reconnection';
-import { InteractiveSocket, ISocketOptions } from './Socket';
+import {
+    DeliveryMode,
+    InteractiveSocket,
+    ISequenceGap,
+    ISocketOptions,
+    SocketState,
+} from './Socket';
 
 // tslint:disable-next-line:no-require-imports no-var-requires
 use(require('sinon-chai'));
@@ -20,6 +29,9 @@ const METHOD = {
     discard: false,
 };
 
+// The scene sent with createControls by the tests, which the server echoes.
+const SCENE: ISceneData = { sceneID: 'default', controls: [] };
+
 function closeNormal(ws: WebSocketModule) {
     ws.close(1000, 'Normal');
 }
@@ -73,12 +85,108 @@ describe('socket', () => {
         });
     });
 
+    describe('authentication', () => {
+        const cannotAuthenticate = 4019;
+
+        it('refreshes the token and reconnects when it is rejected', done => {
+            const provider = sinon.stub().resolves('fresh');
+            server.once('connection', (ws: WebSocketModule) => {
+                server.once('connection', (retry: WebSocketModule) => {
+                    expect(provider).to.have.been.calledOnce;
+                    expect(retry.upgradeReq.headers.authorization).to.equal(
+                        'Bearer fresh',
+                    );
+                    done();
+                });
+                ws.close(cannotAuthenticate, 'Expired');
+            });
+            socket = new InteractiveSocket({
+                url,
+                authToken: 'stale',
+                authTokenProvider: provider,
+                reconnectionPolicy: { next: () => 5, reset: () => undefined },
+            }).connect();
+        });
+
+        it('gives up if the refreshed token is also rejected', done => {
+            server.on('connection', (ws: WebSocketModule) => {
+                ws.close(cannotAuthenticate, 'Expired');
+            });
+            socket = new InteractiveSocket({
+                url,
+                authTokenProvider: sinon.stub().resolves('still bad'),
+                reconnectionPolicy: { next: () => 5, reset: () => undefined },
+            }).connect();
+            socket.on('error', (err: Error) => {
+                expect(err.message).to.equal('Expired');
+                done();
+            });
+        });
+    });
+
+    describe('liveness', () => {
+        it('reports the round trip time of pings', done => {
+            socket = new InteractiveSocket({ url, pingInterval: 5 }).connect();
+            socket.once('pong', (rtt: number) => {
+                expect(rtt).to.be.a('number');
+                done();
+            });
+        });
+
+        it('counts getTime pings where ping frames are unsupported', done => {
+            server.once('connection', (ws: WebSocketModule) => {
+                ws.on('message', (payload: string) => {
+                    const data = JSON.parse(payload);
+                    ws.send(
+                        JSON.stringify({
+                            type: 'reply',
+                            id: data.id,
+                            result: { time: 0 },
+                            error: null,
+                        }),
+                    );
+                });
+            });
+            socket = new InteractiveSocket({ url, pingInterval: 5 }).connect();
+            (<any>socket).socket.ping = undefined;
+            socket.once('pong', () => {
+                const stats = socket.getStats().methods['getTime'];
+                expect(stats.replies).to.be.above(0);
+                expect(stats.calls).to.be.at.least(stats.replies);
+                done();
+            });
+        });
+
+        it('reconnects when pings go unanswered', done => {
+            server.once('connection', (ws: WebSocketModule) => {
+                // Swallow pings, like a half-open connection would.
+                ws.pong = () => undefined;
+                server.once('connection', () => {
+                    expect(socket.getState()).to.equal(SocketState.Connecting);
+                    done();
+                });
+            });
+            socket = new InteractiveSocket({
+                url,
+                pingInterval: 5,
+                maxMissedPings: 2,
+            }).connect();
+            socket.setOptions({
+                reconnectionPolicy: { next: () => 5, reset: () => undefined },
+            });
+        });
+    });
+
     describe('sending packets', () => {
         let ws: WebSocketModule;
         let next: sinon.SinonStub;
         let reset: sinon.SinonStub;
         let checker: sinon.SinonStub;
 
+        function createControls() {
+            return socket.execute('createControls', SCENE);
+        }
+
         function greet() {
             ws.send(JSON.stringify(METHOD));
         }
@@ -101,11 +209,9 @@ describe('socket', () => {
                 {
                     id: data.id,
                     type: 'method',
-                    method: 'hello',
+                    method: 'createControls',
                     discard: false,
-                    params: {
-                        foo: 'bar',
-                    },
+                    params: SCENE,
                     seq,
                 },
                 'received method should match sent method',
@@ -115,7 +221,7 @@ describe('socket', () => {
                     type: 'reply',
                     id: data.id,
                     error: null,
-                    result: 'hi',
+                    result: data.params,
                     seq: seq + 1,
                 }),
             );
@@ -200,12 +306,24 @@ describe('socket', () => {
 
         it('times out message calls if no reply is received', () => {
             socket.setOptions({ replyTimeout: 5 });
-            return socket
-                .execute('hello', { foo: 'bar' })
+            return createControls()
                 .catch(err => expect(err).to.be.an.instanceof(TimeoutError));
         });
 
+        it('gives up reconnecting when the policy returns no delay', done => {
+            next.returns(null);
+            socket.once('reconnectFailed', () => {
+                expect(socket.getState()).to.equal(SocketState.Idle);
+                done();
+            });
+            closeNormal(ws);
+        });
+
         it('retries messages if the socket is closed before replying', () => {
+            socket.setOptions({
+                deliveryMode: DeliveryMode.Resend,
+                resendableMethods: ['createControls'],
+            });
             ws.on('message', () => {
                 closeNormal(ws);
             });
@@ -216,9 +334,26 @@ describe('socket', () => {
                 });
             });
 
-            return socket.execute('hello', { foo: 'bar' }).then(res => {
-                expect(res).to.equal('hi');
+            return createControls().then(res => {
+                expect(res).to.deep.equal(SCENE);
+            });
+        });
+
+        it('cancels messages which are not resendable if the socket is closed before replying', () => {
+            socket.setOptions({
+                deliveryMode: DeliveryMode.Resend,
+                resendableMethods: [],
+            });
+            ws.on('message', () => {
+                closeNormal(ws);
             });
+
+            return createControls()
+                .then(() => assert.fail('expected the packet to be cancelled'))
+                .catch(err => {
+                    expect(err).to.be.an.instanceof(CancelledError);
+                    expect(socket.getQueueSize()).to.equal(0);
+                });
         });
 
         it('recieves a reply to a method', () => {
@@ -226,11 +361,101 @@ describe('socket', () => {
                 assertAndReplyTo(payload, 0);
             });
 
-            return socket.execute('hello', { foo: 'bar' }).then(res => {
-                expect(res).to.equal('hi');
+            return createControls().then(res => {
+                expect(res).to.deep.equal(SCENE);
+            });
+        });
+
+        it('reports traffic and reply latencies in its stats', () => {
+            ws.on('message', payload => {
+                assertAndReplyTo(payload, 0);
+            });
+
+            return createControls().then(() => {
+                const stats = socket.getStats();
+                expect(stats.state).to.equal(SocketState.Connected);
+                expect(stats.queueSize).to.equal(0);
+                expect(stats.packetsSent).to.equal(1);
+                expect(stats.bytesSent).to.be.greaterThan(0);
+                expect(stats.packetsReceived).to.equal(1);
+                expect(stats.bytesReceived).to.be.greaterThan(0);
+                expect(stats.methods['createControls'].calls).to.equal(1);
+                expect(stats.methods['createControls'].replies).to.equal(1);
+                expect(stats.methods['createControls'].latency.count).to.equal(1);
+            });
+        });
+
+        it('counts timed out methods in its stats', () => {
+            socket.setOptions({ replyTimeout: 5 });
+            return createControls().catch(() => {
+                const stats = socket.getStats();
+                expect(stats.timeouts).to.equal(1);
+                expect(stats.methods['createControls'].timeouts).to.equal(1);
+            });
+        });
+
+        it('sends and receives gzip compressed frames', () => {
+            socket.setOptions({ compressionScheme: 'gzip' });
+            ws.on('message', (payload: Buffer) => {
+                const data = JSON.parse(pako.ungzip(payload, { to: 'string' }));
+                expect(data.method).to.equal('createControls');
+                ws.send(
+                    new Buffer(
+                        pako.gzip(
+                            JSON.stringify({
+                                type: 'reply',
+                                id: data.id,
+                                error: null,
+                                result: data.params,
+                                seq: 1,
+                            }),
+                        ),
+                    ),
+                );
+            });
+
+            return createControls().then(res => {
+                expect(res).to.deep.equal(SCENE);
             });
         });
 
+        it('sends and receives lz4 compressed frames', () => {
+            socket.setOptions({ compressionScheme: 'lz4' });
+            ws.on('message', (payload: Buffer) => {
+                const data = JSON.parse(
+                    new Buffer(lz4.decompress(payload)).toString(),
+                );
+                expect(data.method).to.equal('createControls');
+                const reply = JSON.stringify({
+                    type: 'reply',
+                    id: data.id,
+                    error: null,
+                    result: data.params,
+                    seq: 1,
+                });
+                ws.send(new Buffer(lz4.compress(new Buffer(reply))));
+            });
+
+            return createControls().then(res => {
+                expect(res).to.deep.equal(SCENE);
+            });
+        });
+
+        it('reconnects uncompressed if the server cannot decompress a frame', done => {
+            socket.setOptions({ compressionScheme: 'lz4' });
+            socket.once('compressionFailed', (scheme: string) => {
+                expect(scheme).to.equal('lz4');
+                awaitConnect((newWs: WebSocketModule) => {
+                    newWs.on('message', (payload: any) => {
+                        expect(payload).to.be.a('string');
+                        done();
+                    });
+                    createControls().catch(() => null);
+                });
+            });
+            ws.close(4001, 'Payload decompression failed');
+        });
+
         it('tracks packet sequence numbers', () => {
             let completed = false;
             ws.once('message', (payload1: any) => {
@@ -242,11 +467,19 @@ describe('socket', () => {
                 });
             });
 
-            return socket.execute('hello', { foo: 'bar' })
-                .then(() => socket.execute('hello', { foo: 'bar' }))
+            return createControls()
+                .then(() => createControls())
                 .then(() => expect(completed).to.equal(true, 'expected to have called twice'));
         });
 
+        it('emits gaps in the server\'s sequence numbers', done => {
+            socket.once('sequenceGap', (gap: ISequenceGap) => {
+                expect(gap).to.deep.equal({ expected: 3, received: 5 });
+                done();
+            });
+            [1, 2, 5].forEach(seq => ws.send(JSON.stringify({ ...METHOD, seq })));
+        });
+
         it('emits a method sent to it', done => {
             ws.send(JSON.stringify(METHOD));
             socket.on('method', (method: Method<any>) => {
@@ -255,10 +488,18 @@ describe('socket', () => {
             });
         });
 
+        it('drops unreadable frames, emitting an error', done => {
+            socket.once('error', (err: Error) => {
+                expect(err).to.be.an.instanceof(MessageParseError);
+                socket.on('method', () => done());
+                ws.send(JSON.stringify(METHOD));
+            });
+            ws.send('{"type":"method",');
+        });
+
         it('cancels packets if the socket is closed mid-call', () => {
             ws.on('message', () => socket.close());
-            return socket
-                .execute('hello', { foo: 'bar' })
+            return createControls()
                 .catch(err => expect(err).be.an.instanceof(CancelledError))
                 .then(() => {
                     closeNormal(ws);
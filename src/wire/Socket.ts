@@ -1,107 +1,41 @@
 import { EventEmitter } from 'events';
-import * as Url from 'url';
 
-import { CancelledError, InteractiveError, MessageParseError, TimeoutError } from '../errors';
+import {
+    CancelledError,
+    InteractiveError,
+    MessageParseError,
+    TimeoutError,
+} from '../errors';
 import { IRawValues } from '../interfaces';
+import { ILogger, withRedaction } from '../logging';
+import {
+    MethodParams,
+    MethodResult,
+    ProtocolMethod,
+} from '../methods/methodTypes';
+import { createCompressor, decodeFrame, ICompressor } from './compression';
+import {
+    getConnectionOptions,
+    getConnectionUrl,
+    getDefaultOptions,
+    isAuthFailure,
+    isCompressionFailure,
+} from './connection';
+import { Heartbeat } from './heartbeat';
 import { Method, Packet, PacketState, Reply } from './packets';
+import { isRecoverable } from './reconnection';
+import { SequenceTracker } from './sequence';
 import {
-    ExponentialReconnectionPolicy,
-    IReconnectionPolicy,
-} from './reconnection';
-
-/**
- * Close codes that are deemed to be recoverable by the reconnection policy
- */
-export const recoverableCloseCodes = [1000, 1011];
-
-//We don't support lz4 due to time constraints right now
-export type CompressionScheme = 'none' | 'gzip';
-
-/**
- * SocketOptions are passed to the Interactive Socket and control behavior.
- */
-export interface ISocketOptions {
-    // Settings to use for reconnecting automatically to Constellation.
-    // Defaults to automatically reconnecting with the ExponentialPolicy.
-    reconnectionPolicy?: IReconnectionPolicy;
-    autoReconnect?: boolean;
-
-    // Websocket URL to connect to, defaults to <TODO>
-    url?: string;
-
-    //compression scheme, defaults to none, Will remain none until pako typings are updated
-    compressionScheme?: CompressionScheme;
-
-    // Query params to add
-    queryParams?: IRawValues;
-
-    // Optional OAuth token to use for authentication.
-    authToken?: string;
-
-    // Timeout on Constellation method calls before we throw an error.
-    replyTimeout?: number;
-
-    // Duration upon which to send a ping to the server. Defaults to 10 seconds.
-    pingInterval?: number;
-    // Any extra headers to include in the socket connection.
-    extraHeaders?: IRawValues;
-    // Optional intercept function that can be run before socket reconnections.
-    reconnectChecker?: () => Promise<void>;
-}
-
-export interface IWebSocketOptions {
-    headers: IRawValues;
-}
-
-export interface ICloseEvent {
-    code: number;
-    reason: string;
-    wasClean: boolean;
-}
-
-/**
- * SocketState is used to record the status of the websocket connection.
- */
-export enum SocketState {
-    /**
-     * A connection attempt has not been made yet.
-     */
-    Idle = 1,
-    /**
-     * A connection attempt is currently being made.
-     */
-    Connecting,
-    /**
-     * The socket is connection and data may be sent.
-     */
-    Connected,
-    /**
-     * The socket is gracefully closing; after this it will become Idle.
-     */
-    Closing,
-    /**
-     * The socket is reconnecting after closing unexpectedly.
-     */
-    Reconnecting,
-    /**
-     * Connect was called whilst the old socket was still open.
-     */
-    Refreshing,
-}
+    DeliveryMode,
+    ICloseEvent,
+    ISocketOptions,
+    ISocketStats,
+    SocketState,
+} from './socketTypes';
+import { SocketStats } from './stats';
 
-function getDefaults(): ISocketOptions {
-    return {
-        url: '',
-        replyTimeout: 10000,
-        compressionScheme: 'none',
-        autoReconnect: true,
-        reconnectionPolicy: new ExponentialReconnectionPolicy(),
-        pingInterval: 10 * 1000,
-        extraHeaders: {},
-        queryParams: {},
-        reconnectChecker: () => Promise.resolve(),
-    };
-}
+export { CompressionScheme } from './compression';
+export * from './socketTypes';
 
 export class InteractiveSocket extends EventEmitter {
     // WebSocket constructor, may be overridden if the environment
@@ -117,7 +51,16 @@ export class InteractiveSocket extends EventEmitter {
     private state: SocketState = SocketState.Idle;
     private socket: any;
     private queue: Set<Packet> = new Set<Packet>();
-    private lastSequenceNumber = 0;
+    private sequence = new SequenceTracker();
+    private compressor: ICompressor = createCompressor('none');
+    private authFailed = false;
+    private logger: ILogger;
+    private stats = new SocketStats();
+    private heartbeat = new Heartbeat(
+        () => this.ping(),
+        rtt => this.emit('pong', rtt),
+        () => this.abandonConnection(),
+    );
 
     constructor(options: ISocketOptions = {}) {
         super();
@@ -132,24 +75,57 @@ export class InteractiveSocket extends EventEmitter {
         }
 
         this.on('message', (msg: any) => {
+            // The server only talks to us once it has accepted our token.
+            this.authFailed = false;
             this.extractMessage(msg);
         });
 
         this.on('open', () => {
+            this.logger.info('Socket connected');
             this.options.reconnectionPolicy.reset();
             this.state = SocketState.Connected;
+            this.heartbeat.start(
+                this.options.pingInterval,
+                this.options.maxMissedPings,
+            );
             this.queue.forEach(data => this.send(data));
         });
 
         this.on('close', (evt: ICloseEvent) => {
-            // If this close event's code is not within our recoverable code array
+            this.logger.info('Socket closed', {
+                code: evt.code,
+                reason: evt.reason,
+            });
+            this.heartbeat.stop();
+
+            // The server could not decompress our frames, the next connection
+            // starts uncompressed so we let the client pick another scheme.
+            const compressionFailed = isCompressionFailure(
+                this.options,
+                evt.code,
+            );
+            if (compressionFailed) {
+                this.emit('compressionFailed', this.options.compressionScheme);
+            }
+
+            // An expired token is refreshed once, if it fails again we give up.
+            const authFailed = isAuthFailure(this.options, evt.code);
+            const retryAuth = authFailed && !this.authFailed;
+            this.authFailed = authFailed;
+
+            // If this close event's code is not recoverable by our reconnection policy
             // We raise it as an error and refuse to connect.
-            if (recoverableCloseCodes.indexOf(evt.code) === -1) {
+            if (
+                !isRecoverable(this.options.reconnectionPolicy, evt.code) &&
+                !compressionFailed &&
+                !retryAuth
+            ) {
                 const err = InteractiveError.fromSocketMessage({
                     code: evt.code,
                     message: evt.reason,
                 });
                 this.state = SocketState.Closing;
+                this.logger.error('Socket closed unrecoverably', { err });
                 this.emit('error', err);
                 // Refuse to continue, these errors usually mean something is very wrong with our connection.
                 return;
@@ -157,7 +133,7 @@ export class InteractiveSocket extends EventEmitter {
 
             if (this.state === SocketState.Refreshing) {
                 this.state = SocketState.Idle;
-                this.options.reconnectChecker().then(() => this.connect());
+                this.reconnect();
                 return;
             }
 
@@ -169,11 +145,19 @@ export class InteractiveSocket extends EventEmitter {
                 return;
             }
 
-            this.state = SocketState.Reconnecting;
+            const delay = this.options.reconnectionPolicy.next();
+            if (delay === null) {
+                // The policy has given up on reconnecting.
+                this.state = SocketState.Idle;
+                this.logger.warn('Reconnection policy gave up');
+                this.emit('reconnectFailed');
+                return;
+            }
 
-            this.reconnectTimeout = setTimeout(() => {
-                this.options.reconnectChecker().then(() => this.connect());
-            }, this.options.reconnectionPolicy.next());
+            this.state = SocketState.Reconnecting;
+            this.stats.reconnect();
+            this.logger.info('Reconnecting', { delay });
+            this.reconnectTimeout = setTimeout(() => this.reconnect(), delay);
         });
     }
 
@@ -184,9 +168,11 @@ export class InteractiveSocket extends EventEmitter {
     public setOptions(options: ISocketOptions) {
         this.options = Object.assign(
             {},
-            this.options || getDefaults(),
+            this.options || getDefaultOptions(),
             options,
         );
+        this.compressor = createCompressor(this.options.compressionScheme);
+        this.logger = withRedaction(this.options.logger);
     }
 
     /**
@@ -198,48 +184,56 @@ export class InteractiveSocket extends EventEmitter {
             this.state = SocketState.Refreshing;
             return this;
         }
-        const defaultHeaders = {
-            'X-Protocol-Version': '2.0',
-        };
-
-        const headers = Object.assign(
-            {},
-            defaultHeaders,
-            this.options.extraHeaders,
-        );
-
-        const extras: IWebSocketOptions = {
-            headers,
-        };
-
-        const url = Url.parse(this.options.url, true);
-        // Clear out search so it populates query using the query
-        // https://nodejs.org/api/url.html#url_url_format_urlobject
-        url.search = null;
-
-        if (this.options.authToken) {
-            extras.headers['Authorization'] = `Bearer ${this.options
-                .authToken}`;
-        }
-        url.query = Object.assign({}, url.query, this.options.queryParams);
+        // A fresh connection has not negotiated compression yet.
+        this.setOptions({ compressionScheme: 'none' });
 
-        this.socket = new InteractiveSocket.WebSocket(
-            Url.format(url),
+        const url = getConnectionUrl(this.options);
+        this.logger.info('Connecting', { url });
+        const socket = new InteractiveSocket.WebSocket(
+            url,
             [],
-            extras,
+            getConnectionOptions(this.options),
         );
+        this.socket = socket;
+        this.sequence.restart();
+        // Compressed frames arrive as binary, read them the same way in Node and Browsers.
+        socket.binaryType = 'arraybuffer';
 
         this.state = SocketState.Connecting;
 
-        this.socket.addEventListener('close', (evt: ICloseEvent) =>
-            this.emit('close', evt),
-        );
-        this.socket.addEventListener('open', () => this.emit('open'));
-        this.socket.addEventListener('message', (evt: any) =>
-            this.emit('message', evt.data),
-        );
+        // Events from a socket we have abandoned after failed pings are ignored.
+        const listen = (event: string, listener: (evt: any) => void) => {
+            socket.addEventListener(event, (evt: any) => {
+                if (socket === this.socket) {
+                    listener(evt);
+                }
+            });
+        };
+
+        listen('close', (evt: ICloseEvent) => this.emit('close', evt));
+        listen('open', () => this.emit('open'));
+        listen('message', (evt: any) => {
+            this.stats.received(evt.data);
+            try {
+                this.emit(
+                    'message',
+                    decodeFrame(
+                        this.compressor,
+                        this.options.compressionScheme,
+                        evt.data,
+                    ),
+                );
+            } catch (err) {
+                if (!(err instanceof MessageParseError)) {
+                    throw err;
+                }
+                // Unreadable frames are dropped, the connection stays open.
+                this.logger.warn('Dropped unreadable frame', { err });
+                this.emit('error', err);
+            }
+        });
 
-        this.socket.addEventListener('error', (err: any) => {
+        listen('error', (err: any) => {
             if (this.state === SocketState.Closing) {
                 // Ignore errors on a closing socket.
                 return;
@@ -248,6 +242,15 @@ export class InteractiveSocket extends EventEmitter {
             this.emit('error', err);
         });
 
+        // Node websocket implementations support control frame pings.
+        if (typeof socket.ping === 'function') {
+            socket.on('pong', () => {
+                if (socket === this.socket) {
+                    this.heartbeat.pong();
+                }
+            });
+        }
+
         return this;
     }
 
@@ -270,6 +273,7 @@ export class InteractiveSocket extends EventEmitter {
         }
 
         if (this.state !== SocketState.Idle) {
+            this.heartbeat.stop();
             this.state = SocketState.Closing;
             this.socket.close(1000, 'Closed normally.');
             this.queue.forEach(packet => packet.cancel());
@@ -281,12 +285,18 @@ export class InteractiveSocket extends EventEmitter {
      * Executes an RPC method on the server. Returns a promise which resolves
      * after it completes, or after a timeout occurs.
      */
+    public execute<K extends ProtocolMethod>(
+        method: K,
+        params?: MethodParams<K>,
+        discard?: boolean,
+    ): Promise<MethodResult<K>>;
     public execute(
         method: string,
         params: IRawValues = {},
         discard: boolean = false,
     ): Promise<any> {
         const methodObj = new Method(method, params, discard);
+        this.stats.call(method);
         return this.send(new Packet(methodObj));
     }
 
@@ -304,48 +314,80 @@ export class InteractiveSocket extends EventEmitter {
         // If the socket has not said hello, queue the request and return
         // the promise eventually emitted when it is sent.
         if (this.state !== SocketState.Connected) {
-            return new Promise((resolve, reject) => {
-                let timer: NodeJS.Timer;
-                let onSend: Function;
-                let onCancel: Function;
-                let onClose: Function;
-                onSend = (data: any) => {
-                    clearTimeout(timer);
-                    packet.removeListener('cancel', onCancel);
-                    this.removeListener('close', onClose);
-                    resolve(data);
-                };
-                onCancel = () => {
-                    clearTimeout(timer);
-                    packet.removeListener('send', onSend);
-                    this.removeListener('close', onClose);
-                    reject(new CancelledError());
-                };
-                onClose = () => {
-                    clearTimeout(timer);
-                    packet.removeListener('send', onSend);
-                    packet.removeListener('cancel', onCancel);
-
-                    // reject(new CancelledError()); // TODO handle close
-                };
-                packet.once('send', onSend);
-                packet.once('cancel', onCancel);
-                this.once('close', onClose);
-
-                timer = setTimeout(
-                    () => {
-                        packet.removeListener('send', onSend);
-                        packet.removeListener('cancel', onCancel);
-                        this.removeListener('close', onClose);
-                        reject(new TimeoutError(`Expected to get event send ${JSON.stringify(packet)}`));
-                    },
-                    120 * 1000);
-            });
+            return this.awaitSend(packet);
         }
 
+        const promise = this.awaitReply(packet);
 
+        packet.emit('send', promise);
+        packet.setState(PacketState.Sending);
+        this.sendPacketInner(packet);
+
+        return promise;
+    }
+
+    /**
+     * Waits for a queued packet to be sent once the socket connects, resolving
+     * with the reply. The packet is cancelled if the socket closes and will
+     * not reconnect.
+     */
+    private awaitSend(packet: Packet): Promise<any> {
+        return new Promise((resolve, reject) => {
+            let timer: NodeJS.Timer;
+            let onSend: Function;
+            let onCancel: Function;
+            let onClose: Function;
+            onSend = (data: any) => {
+                clearTimeout(timer);
+                packet.removeListener('cancel', onCancel);
+                this.removeListener('close', onClose);
+                resolve(data);
+            };
+            onCancel = () => {
+                clearTimeout(timer);
+                packet.removeListener('send', onSend);
+                this.removeListener('close', onClose);
+                reject(new CancelledError());
+            };
+            onClose = () => {
+                // The packet was never sent, so it can always wait for the next connection.
+                if (this.state === SocketState.Reconnecting) {
+                    this.once('close', onClose);
+                    return;
+                }
+                this.queue.delete(packet);
+
+                clearTimeout(timer);
+                packet.removeListener('send', onSend);
+                packet.removeListener('cancel', onCancel);
+                reject(new CancelledError());
+            };
+            packet.once('send', onSend);
+            packet.once('cancel', onCancel);
+            this.once('close', onClose);
+
+            timer = setTimeout(() => {
+                packet.removeListener('send', onSend);
+                packet.removeListener('cancel', onCancel);
+                this.removeListener('close', onClose);
+                reject(
+                    new TimeoutError(
+                        `Expected to get event send ${JSON.stringify(packet)}`,
+                    ),
+                );
+            }, 120 * 1000);
+        });
+    }
+
+    /**
+     * Waits for the reply to a packet which is being sent. If the socket closes
+     * before a reply is received the packet is either re-sent after reconnecting
+     * or cancelled, depending on the socket's delivery mode.
+     */
+    private awaitReply(packet: Packet): Promise<any> {
         const timeout = packet.getTimeout(this.options.replyTimeout);
-        const promise = new Promise((resolve, reject) => {
+        const sentAt = Date.now();
+        return new Promise((resolve, reject) => {
             let timer: NodeJS.Timer;
             let onReply: Function;
             let onCancel: Function;
@@ -356,6 +398,11 @@ export class InteractiveSocket extends EventEmitter {
                 clearTimeout(timer);
                 packet.removeListener('cancel', onCancel);
                 this.removeListener('close', onClose);
+                this.stats.reply(
+                    packet.methodName(),
+                    Date.now() - sentAt,
+                    !!data.error,
+                );
 
                 if (data.error) {
                     reject(data.error);
@@ -376,34 +423,46 @@ export class InteractiveSocket extends EventEmitter {
                 this.removeListener(`reply:${packet.id()}`, onReply);
                 packet.removeListener('cancel', onCancel);
 
-                reject(new CancelledError()); // if the connection is closed I want to cancel the event
-                /*if (this.queue.has(packet)) { // resend if packet is still in the queue
+                if (this.shouldResend(packet)) {
                     packet.setState(PacketState.Pending);
-                    this.send(packet).then(
-                        (data) => { resolve(data); },
-                        (error) => { reject(error); }
-                    );
-                }*/
+                    resolve(this.send(packet));
+                    return;
+                }
+
+                this.queue.delete(packet);
+                reject(new CancelledError());
             };
             this.once(`reply:${packet.id()}`, onReply);
             packet.once('cancel', onCancel);
             this.once('close', onClose);
 
-            timer = setTimeout(
-                () => {
-                    this.removeListener(`reply:${packet.id()}`, onReply);
-                    packet.removeListener('cancel', onCancel);
-                    this.removeListener('close', onClose);
-                    reject(new TimeoutError(`Expected to get event reply:${packet.id()}`));
-                },
-                timeout);
-        });
+            timer = setTimeout(() => {
+                this.queue.delete(packet);
 
-        packet.emit('send', promise);
-        packet.setState(PacketState.Sending);
-        this.sendPacketInner(packet);
+                this.removeListener(`reply:${packet.id()}`, onReply);
+                packet.removeListener('cancel', onCancel);
+                this.removeListener('close', onClose);
+                this.stats.timeout(packet.methodName());
+                reject(
+                    new TimeoutError(
+                        `Expected to get event reply:${packet.id()}`,
+                    ),
+                );
+            }, timeout);
+        });
+    }
 
-        return promise;
+    /**
+     * Returns true if a packet which was in flight when the socket closed
+     * should be sent again once the socket reconnects.
+     */
+    private shouldResend(packet: Packet): boolean {
+        return (
+            this.options.deliveryMode === DeliveryMode.Resend &&
+            this.state === SocketState.Reconnecting &&
+            this.queue.has(packet) &&
+            this.options.resendableMethods.indexOf(packet.methodName()) !== -1
+        );
     }
 
     public reply(reply: Reply) {
@@ -411,20 +470,20 @@ export class InteractiveSocket extends EventEmitter {
     }
 
     private sendPacketInner(packet: Packet) {
-        this.sendRaw(packet.setSequenceNumber(this.lastSequenceNumber));
+        this.sendRaw(packet.setSequenceNumber(this.sequence.current()));
     }
 
     private sendRaw(packet: any) {
         const data = JSON.stringify(packet);
-        const payload = data;
+        const payload = this.compressor.encode(data);
 
-        this.emit('send', payload);
+        this.logger.debug('Sending packet', { packet });
+        this.stats.sent(payload);
+        this.emit('send', data);
         this.socket.send(payload);
     }
 
-    private extractMessage(packet: string | Buffer) {
-        let messageString: string;
-        messageString = <string>packet;
+    private extractMessage(messageString: string) {
         let message: any;
         try {
             message = JSON.parse(messageString);
@@ -432,8 +491,12 @@ export class InteractiveSocket extends EventEmitter {
             throw new MessageParseError('Message returned was not valid JSON');
         }
 
-        if (message.hasOwnProperty('seq')) {
-            this.lastSequenceNumber = message.seq;
+        this.logger.debug('Received message', { message });
+        const gap =
+            message.hasOwnProperty('seq') && this.sequence.observe(message.seq);
+        if (gap) {
+            this.logger.warn('Sequence gap', { ...gap });
+            this.emit('sequenceGap', gap);
         }
 
         switch (message.type) {
@@ -441,7 +504,17 @@ export class InteractiveSocket extends EventEmitter {
                 this.emit('method', Method.fromSocket(message));
                 break;
             case 'reply':
-                this.emit(`reply:${message.id}`, Reply.fromSocket(message));
+                const reply = Reply.fromSocket(message);
+                if (
+                    reply.error &&
+                    isCompressionFailure(this.options, reply.error.code)
+                ) {
+                    this.emit(
+                        'compressionFailed',
+                        this.options.compressionScheme,
+                    );
+                }
+                this.emit(`reply:${message.id}`, reply);
                 break;
             default:
                 throw new MessageParseError(
@@ -450,7 +523,71 @@ export class InteractiveSocket extends EventEmitter {
         }
     }
 
+    /**
+     * Sends a ping to the server, using a websocket ping where the implementation
+     * supports it and a `getTime` call otherwise.
+     */
+    private ping() {
+        if (typeof this.socket.ping === 'function') {
+            this.socket.ping();
+            return;
+        }
+
+        this.execute('getTime', null, false)
+            .then(() => this.heartbeat.pong())
+            .catch(() => null);
+    }
+
+    /**
+     * Drops a connection which has stopped responding. Half-open connections
+     * may never emit a close event, so we stop listening to the old socket
+     * and close on its behalf, which puts us into the reconnecting state.
+     */
+    private abandonConnection() {
+        const socket = this.socket;
+        this.socket = null;
+        if (typeof socket.terminate === 'function') {
+            socket.terminate();
+        } else {
+            socket.close();
+        }
+
+        this.emit('close', {
+            code: 1011,
+            reason: 'Connection timed out, no reply to pings.',
+            wasClean: false,
+        });
+    }
+
+    /**
+     * Runs the reconnect checker and refreshes our auth token before connecting again.
+     */
+    private reconnect() {
+        const provider = this.options.authTokenProvider;
+        this.options
+            .reconnectChecker()
+            .then(() => provider && provider())
+            .then(authToken => {
+                if (authToken) {
+                    this.setOptions({ authToken });
+                }
+                this.connect();
+            })
+            .catch(err => {
+                this.state = SocketState.Idle;
+                this.logger.error('Could not reconnect', { err });
+                this.emit('error', err);
+            });
+    }
+
     public getQueueSize(): number {
         return this.queue.size;
     }
+
+    /**
+     * Returns counters describing the traffic this socket has sent and received.
+     */
+    public getStats(): ISocketStats {
+        return this.stats.snapshot(this.state, this.getQueueSize());
+    }
 }
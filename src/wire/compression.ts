@@ -0,0 +1,114 @@
+import * as lz4 from 'lz4js';
+import * as pako from 'pako';
+
+import { MessageParseError } from '../errors';
+
+/**
+ * The compression schemes which can be negotiated with the server using
+ * [setCompression]{@link Client.setCompression}.
+ */
+export type CompressionScheme = 'none' | 'gzip' | 'lz4';
+
+/**
+ * A Compressor encodes outgoing frames and decodes incoming binary frames
+ * for a single compression scheme.
+ */
+export interface ICompressor {
+    /**
+     * Encodes a JSON string into the payload that will be written to the socket.
+     */
+    encode(data: string): string | Uint8Array;
+
+    /**
+     * Decodes a binary frame received from the socket back into a JSON string.
+     */
+    decode(data: Uint8Array): string;
+}
+
+/**
+ * The NoneCompressor sends frames as plain text.
+ */
+export class NoneCompressor implements ICompressor {
+    public encode(data: string): string {
+        return data;
+    }
+
+    public decode(data: Uint8Array): string {
+        // Binary frames without compression still carry utf-8 encoded JSON.
+        return utf8Decode(data);
+    }
+}
+
+/**
+ * The GzipCompressor sends and receives gzip encoded binary frames.
+ */
+export class GzipCompressor implements ICompressor {
+    public encode(data: string): Uint8Array {
+        return pako.gzip(data);
+    }
+
+    public decode(data: Uint8Array): string {
+        return pako.ungzip(data, { to: 'string' });
+    }
+}
+
+/**
+ * The Lz4Compressor sends and receives lz4 framed binary frames. It is cheaper
+ * on the CPU than gzip, at the cost of a lower compression ratio.
+ */
+export class Lz4Compressor implements ICompressor {
+    public encode(data: string): Uint8Array {
+        return lz4.compress(utf8Encode(data));
+    }
+
+    public decode(data: Uint8Array): string {
+        return utf8Decode(lz4.decompress(data));
+    }
+}
+
+/**
+ * Returns a compressor for the given scheme.
+ */
+export function createCompressor(scheme: CompressionScheme): ICompressor {
+    switch (scheme) {
+        case 'gzip':
+            return new GzipCompressor();
+        case 'lz4':
+            return new Lz4Compressor();
+        case 'none':
+            return new NoneCompressor();
+        default:
+            throw new Error(`Unknown compression scheme "${scheme}"`);
+    }
+}
+
+/**
+ * Decodes a frame from the websocket into a JSON string, inflating binary
+ * frames with the negotiated compression scheme.
+ */
+export function decodeFrame(
+    compressor: ICompressor,
+    scheme: CompressionScheme,
+    data: string | ArrayBuffer,
+): string {
+    if (typeof data === 'string') {
+        return data;
+    }
+    try {
+        return compressor.decode(new Uint8Array(data));
+    } catch (err) {
+        throw new MessageParseError(
+            `Message could not be decompressed using ${scheme}`,
+        );
+    }
+}
+
+function utf8Encode(data: string): Uint8Array {
+    return Buffer.from(data, 'utf8');
+}
+
+function utf8Decode(data: Uint8Array): string {
+    return Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString(
+        'utf8',
+    );
+}
@@ -0,0 +1,87 @@
+import * as Url from 'url';
+
+import { InteractiveError } from '../errors';
+import { NullLogger } from '../logging';
+import { ExponentialReconnectionPolicy } from './reconnection';
+import {
+    defaultResendableMethods,
+    DeliveryMode,
+    ISocketOptions,
+    IWebSocketOptions,
+} from './socketTypes';
+
+/**
+ * Returns the options a socket starts with.
+ */
+export function getDefaultOptions(): ISocketOptions {
+    return {
+        url: '',
+        replyTimeout: 10000,
+        deliveryMode: DeliveryMode.Cancel,
+        resendableMethods: defaultResendableMethods,
+        compressionScheme: 'none',
+        autoReconnect: true,
+        reconnectionPolicy: new ExponentialReconnectionPolicy(),
+        pingInterval: 10 * 1000,
+        maxMissedPings: 3,
+        extraHeaders: {},
+        queryParams: {},
+        reconnectChecker: () => Promise.resolve(),
+        logger: new NullLogger(),
+    };
+}
+
+/**
+ * Returns the url to open a websocket to, with the configured query params added.
+ */
+export function getConnectionUrl(options: ISocketOptions): string {
+    const url = Url.parse(options.url, true);
+    // Clear out search so it populates query using the query
+    // https://nodejs.org/api/url.html#url_url_format_urlobject
+    url.search = null;
+    url.query = Object.assign({}, url.query, options.queryParams);
+    return Url.format(url);
+}
+
+/**
+ * Returns the options to open a websocket with, including the protocol
+ * version, any extra headers and the OAuth token.
+ */
+export function getConnectionOptions(
+    options: ISocketOptions,
+): IWebSocketOptions {
+    const defaultHeaders = {
+        'X-Protocol-Version': '2.0',
+    };
+
+    const headers = Object.assign({}, defaultHeaders, options.extraHeaders);
+    if (options.authToken) {
+        headers['Authorization'] = `Bearer ${options.authToken}`;
+    }
+
+    return { headers };
+}
+
+/**
+ * Returns true if the server rejected our auth token and we can fetch a new one.
+ */
+export function isAuthFailure(options: ISocketOptions, code: number): boolean {
+    return (
+        !!options.authTokenProvider &&
+        InteractiveError.errors[code] === InteractiveError.CannotAuthenticate
+    );
+}
+
+/**
+ * Returns true if the given error code indicates that the server was
+ * unable to decompress a frame we sent.
+ */
+export function isCompressionFailure(
+    options: ISocketOptions,
+    code: number,
+): boolean {
+    return (
+        options.compressionScheme !== 'none' &&
+        InteractiveError.errors[code] === InteractiveError.PayloadDecompression
+    );
+}
@@ -0,0 +1,64 @@
+/**
+ * A Heartbeat periodically pings a connection and tracks the replies, declaring
+ * the connection dead once too many pings in a row go unanswered.
+ */
+export class Heartbeat {
+    private timer: NodeJS.Timer;
+    private sentAt: number = null;
+    private missed = 0;
+
+    /**
+     * @param sendPing Sends a ping, `pong` should be called when it is answered.
+     * @param onPong Called with the round trip time of each answered ping.
+     * @param onDead Called when `maxMissed` pings in a row go unanswered.
+     */
+    constructor(
+        private sendPing: () => void,
+        private onPong: (rtt: number) => void,
+        private onDead: () => void,
+    ) {}
+
+    /**
+     * Starts pinging every `interval` milliseconds. An interval of 0 disables pinging.
+     */
+    public start(interval: number, maxMissed: number) {
+        this.stop();
+        if (!interval) {
+            return;
+        }
+        this.timer = setInterval(() => this.beat(maxMissed), interval);
+    }
+
+    public stop() {
+        clearInterval(this.timer);
+        this.sentAt = null;
+        this.missed = 0;
+    }
+
+    /**
+     * Records that the last ping was answered.
+     */
+    public pong() {
+        if (this.sentAt === null) {
+            return;
+        }
+        const rtt = Date.now() - this.sentAt;
+        this.sentAt = null;
+        this.missed = 0;
+        this.onPong(rtt);
+    }
+
+    private beat(maxMissed: number) {
+        if (this.sentAt !== null) {
+            this.missed++;
+            if (this.missed >= maxMissed) {
+                this.stop();
+                this.onDead();
+                return;
+            }
+        }
+
+        this.sentAt = Date.now();
+        this.sendPing();
+    }
+}
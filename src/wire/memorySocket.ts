@@ -0,0 +1,22 @@
+/**
+ * The MemorySocket is the base of WebSocket replacements which exchange frames
+ * in memory rather than over a network. It implements the parts of the
+ * WebSocket interface the InteractiveSocket uses to listen for events.
+ */
+export abstract class MemorySocket {
+    public binaryType: string;
+    private listeners: { [event: string]: ((evt: any) => void)[] } = {};
+
+    public addEventListener(event: string, listener: (evt: any) => void) {
+        this.listeners[event] = this.listeners[event] || [];
+        this.listeners[event].push(listener);
+    }
+
+    public abstract send(payload: string | Uint8Array): void;
+
+    public abstract close(code?: number, reason?: string): void;
+
+    protected dispatch(event: string, evt: any) {
+        (this.listeners[event] || []).forEach(listener => listener(evt));
+    }
+}
@@ -45,6 +45,13 @@ export class Packet extends EventEmitter {
         return this.method.id;
     }
 
+    /**
+     * Returns the name of the method this packet carries.
+     */
+    public methodName(): string {
+        return this.method.method;
+    }
+
     /**
      * Aborts sending the message, if it has not been sent yet.
      */
@@ -1,6 +1,13 @@
 import { expect } from 'chai';
 
-import { ExponentialReconnectionPolicy } from './reconnection';
+import {
+    CircuitBreakerReconnectionPolicy,
+    DecorrelatedJitterReconnectionPolicy,
+    ExponentialReconnectionPolicy,
+    FixedReconnectionPolicy,
+    FullJitterReconnectionPolicy,
+    MaxAttemptsReconnectionPolicy,
+} from './reconnection';
 
 // Setting these explicity will mean these tests wont break should we change the defaults
 const maxDelay = 20 * 1000;
@@ -26,3 +33,106 @@ describe('exponential reconnection', () => {
         expect(policy.next()).to.equal(baseDelay);
     });
 });
+
+describe('fixed reconnection', () => {
+    it('always returns the interval', () => {
+        const policy = new FixedReconnectionPolicy(1000);
+        expect(policy.next()).to.equal(1000);
+        expect(policy.next()).to.equal(1000);
+    });
+});
+
+describe('jittered reconnection', () => {
+    it('picks a delay up to the exponential backoff', () => {
+        const policy = new FullJitterReconnectionPolicy(maxDelay, baseDelay);
+        [500, 1000, 2000, 4000].forEach(ceiling => {
+            const delay = policy.next();
+            expect(delay).to.be.at.least(0);
+            expect(delay).to.be.below(ceiling);
+        });
+    });
+    it('picks a delay decorrelated from the previous one', () => {
+        const policy = new DecorrelatedJitterReconnectionPolicy(
+            maxDelay,
+            baseDelay,
+        );
+        let previous = baseDelay;
+        for (let i = 0; i < 5; i++) {
+            const delay = policy.next();
+            expect(delay).to.be.at.least(baseDelay);
+            expect(delay).to.be.at.most(previous * 3);
+            previous = delay;
+        }
+    });
+    it('caps jittered delays at the max delay', () => {
+        const policy = new DecorrelatedJitterReconnectionPolicy(600, baseDelay);
+        for (let i = 0; i < 10; i++) {
+            expect(policy.next()).to.be.at.most(600);
+        }
+    });
+});
+
+describe('max attempts reconnection', () => {
+    it('gives up after the max attempts', () => {
+        const policy = new MaxAttemptsReconnectionPolicy(
+            new FixedReconnectionPolicy(1000),
+            2,
+        );
+        expect(policy.next()).to.equal(1000);
+        expect(policy.next()).to.equal(1000);
+        expect(policy.next()).to.equal(null, 'expected the policy to give up');
+        policy.reset();
+        expect(policy.next()).to.equal(1000);
+    });
+});
+
+describe('circuit breaker reconnection', () => {
+    const cannotAuthenticate = 4019;
+    const sessionConflict = 4021;
+    let policy: CircuitBreakerReconnectionPolicy;
+    beforeEach(() => {
+        policy = new CircuitBreakerReconnectionPolicy(
+            new FixedReconnectionPolicy(1000),
+            2,
+        );
+    });
+    it('retries breaker codes until the threshold is reached', () => {
+        expect(policy.isRecoverable(cannotAuthenticate)).to.equal(
+            true,
+            `expected ${cannotAuthenticate} to be recoverable`,
+        );
+        policy.reset();
+        expect(policy.isRecoverable(cannotAuthenticate)).to.equal(
+            false,
+            `expected ${cannotAuthenticate} not to be recoverable`,
+        );
+    });
+    it('only trips on consecutive closes with the same code', () => {
+        expect(policy.isRecoverable(cannotAuthenticate)).to.equal(
+            true,
+            `expected ${cannotAuthenticate} to be recoverable`,
+        );
+        expect(policy.isRecoverable(sessionConflict)).to.equal(
+            true,
+            `expected ${sessionConflict} to be recoverable`,
+        );
+        expect(policy.isRecoverable(1000)).to.equal(
+            true,
+            'expected 1000 to be recoverable',
+        );
+        expect(policy.isRecoverable(sessionConflict)).to.equal(
+            true,
+            `expected ${sessionConflict} to be recoverable`,
+        );
+    });
+    it('defers to the default recoverable codes for other codes', () => {
+        expect(policy.isRecoverable(1011)).to.equal(
+            true,
+            'expected 1011 to be recoverable',
+        );
+        expect(policy.isRecoverable(4020)).to.equal(
+            false,
+            'expected 4020 not to be recoverable',
+        );
+    });
+});
@@ -1,10 +1,13 @@
+import { InteractiveError } from '../errors';
+import { recoverableCloseCodes } from './socketTypes';
+
 /**
  * A ReconnectionPolicy describes how long to wait before attempting to
  * reconnect to the websocket if the connection drops.
  */
 export interface IReconnectionPolicy {
     /**
-   * next provides the next reconnect delay, in ms.
+   * next provides the next reconnect delay, in ms. Returning null gives up reconnecting.
    */
     next(): number;
 
@@ -12,6 +15,26 @@ export interface IReconnectionPolicy {
    * Resets an internal counter of reconnection attempts, should be called on a successful connection.
    */
     reset(): void;
+
+    /**
+   * Optionally decides whether the socket should reconnect after closing with the given code.
+   * Defaults to checking the code against `recoverableCloseCodes`.
+   */
+    isRecoverable?(code: number): boolean;
+}
+
+/**
+ * Returns whether a policy considers a close code recoverable, falling back to
+ * the default list of recoverable codes.
+ */
+export function isRecoverable(
+    policy: IReconnectionPolicy,
+    code: number,
+): boolean {
+    if (policy.isRecoverable) {
+        return policy.isRecoverable(code);
+    }
+    return recoverableCloseCodes.indexOf(code) !== -1;
 }
 
 /**
@@ -39,3 +62,170 @@ export class ExponentialReconnectionPolicy implements IReconnectionPolicy {
         this.retries = 0;
     }
 }
+
+/**
+ * The FixedReconnectionPolicy waits the same duration before every reconnection attempt.
+ */
+export class FixedReconnectionPolicy implements IReconnectionPolicy {
+    /**
+   * @param {Number} interval duration, in milliseconds, to wait between attempts
+   */
+    constructor(public interval: number = 5 * 1000) {}
+
+    public next(): number {
+        return this.interval;
+    }
+
+    public reset() {
+        // There is no state to reset.
+    }
+}
+
+/**
+ * The FullJitterReconnectionPolicy picks a random delay between zero and the
+ * exponential backoff delay, so that many clients which dropped at the same
+ * time do not reconnect in lockstep.
+ */
+export class FullJitterReconnectionPolicy implements IReconnectionPolicy {
+    private retries: number = 0;
+
+    /**
+   * @param {Number} maxDelay maximum duration to wait between reconnection attempts
+   * @param {Number} baseDelay delay, in milliseconds, the backoff grows from
+   */
+    constructor(
+        public maxDelay: number = 20 * 1000,
+        public baseDelay: number = 500,
+    ) {}
+
+    public next(): number {
+        const ceiling = Math.min(
+            this.maxDelay,
+            // tslint:disable-next-line:no-bitwise
+            (1 << this.retries++) * this.baseDelay,
+        );
+        return Math.floor(Math.random() * ceiling);
+    }
+
+    public reset() {
+        this.retries = 0;
+    }
+}
+
+/**
+ * The DecorrelatedJitterReconnectionPolicy picks a random delay between the base
+ * delay and three times the previous delay, capped at the maximum delay.
+ */
+export class DecorrelatedJitterReconnectionPolicy
+    implements IReconnectionPolicy {
+    private lastDelay: number;
+
+    /**
+   * @param {Number} maxDelay maximum duration to wait between reconnection attempts
+   * @param {Number} baseDelay minimum duration, in milliseconds, to wait between attempts
+   */
+    constructor(
+        public maxDelay: number = 20 * 1000,
+        public baseDelay: number = 500,
+    ) {
+        this.lastDelay = baseDelay;
+    }
+
+    public next(): number {
+        const upper = this.lastDelay * 3;
+        this.lastDelay = Math.min(
+            this.maxDelay,
+            Math.floor(
+                this.baseDelay + Math.random() * (upper - this.baseDelay),
+            ),
+        );
+        return this.lastDelay;
+    }
+
+    public reset() {
+        this.lastDelay = this.baseDelay;
+    }
+}
+
+/**
+ * The MaxAttemptsReconnectionPolicy wraps another policy and gives up after a number
+ * of consecutive failed attempts. The socket emits `reconnectFailed` when it gives up.
+ */
+export class MaxAttemptsReconnectionPolicy implements IReconnectionPolicy {
+    private attempts: number = 0;
+
+    /**
+   * @param {IReconnectionPolicy} policy the policy providing delays between attempts
+   * @param {Number} maxAttempts number of attempts to make before giving up
+   */
+    constructor(
+        public policy: IReconnectionPolicy,
+        public maxAttempts: number = 10,
+    ) {}
+
+    public next(): number {
+        if (this.attempts >= this.maxAttempts) {
+            return null;
+        }
+        this.attempts++;
+        return this.policy.next();
+    }
+
+    public reset() {
+        this.attempts = 0;
+        this.policy.reset();
+    }
+
+    public isRecoverable(code: number): boolean {
+        return isRecoverable(this.policy, code);
+    }
+}
+
+/**
+ * The CircuitBreakerReconnectionPolicy wraps another policy and also retries close codes
+ * which are usually fatal, such as CannotAuthenticate or SessionConflict, as these can be
+ * transient. After the same code closes the socket `threshold` times in a row the circuit
+ * opens and the socket stops reconnecting, raising the close as an error.
+ */
+export class CircuitBreakerReconnectionPolicy implements IReconnectionPolicy {
+    private lastCode: number = null;
+    private failures: number = 0;
+
+    /**
+   * @param {IReconnectionPolicy} policy the policy providing delays between attempts
+   * @param {Number} threshold number of consecutive closes with a breaker code before giving up
+   * @param {Number[]} codes close codes which are retried until the threshold is reached
+   */
+    constructor(
+        public policy: IReconnectionPolicy,
+        public threshold: number = 3,
+        public codes: number[] = [
+            new InteractiveError.CannotAuthenticate('').code,
+            new InteractiveError.SessionConflict('').code,
+        ],
+    ) {}
+
+    public next(): number {
+        return this.policy.next();
+    }
+
+    /**
+   * Resets the wrapped policy. Breaker failures are only cleared by a different close code,
+   * since the server may accept a connection before closing it with an auth failure.
+   */
+    public reset() {
+        this.policy.reset();
+    }
+
+    public isRecoverable(code: number): boolean {
+        if (this.codes.indexOf(code) === -1) {
+            this.lastCode = null;
+            this.failures = 0;
+            return isRecoverable(this.policy, code);
+        }
+
+        this.failures = code === this.lastCode ? this.failures + 1 : 1;
+        this.lastCode = code;
+        return this.failures < this.threshold;
+    }
+}
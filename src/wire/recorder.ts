@@ -0,0 +1,94 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+
+import { IRecordedFrame, parseRecording } from './replay';
+
+/**
+ * The SessionRecorder writes every frame sent and received by a socket to a
+ * stream, as newline delimited JSON. Recordings can be played back to a client
+ * with the [ReplayTransport]{@link ReplayTransport}.
+ *
+ * It attaches to an InteractiveSocket, or to a Client, which re-emits the frames
+ * of whichever socket it is using.
+ *
+ * @example
+ * const recorder = SessionRecorder.toFile('session.ndjson').attach(client);
+ * // Later, once the session is over.
+ * recorder.close();
+ */
+export class SessionRecorder {
+    private source: EventEmitter = null;
+    private startedAt: number;
+    // Whether the output was opened by the recorder, and so is closed by it.
+    private ownsOutput = false;
+    private onSend = (data: string) => this.record('out', data);
+    private onMessage = (data: string) => this.record('in', data);
+
+    /**
+     * Creates a recorder which writes to the file at the given path.
+     */
+    public static toFile(path: string): SessionRecorder {
+        const recorder = new SessionRecorder(fs.createWriteStream(path));
+        recorder.ownsOutput = true;
+        return recorder;
+    }
+
+    constructor(private output: NodeJS.WritableStream) {}
+
+    /**
+     * Starts recording the frames of the given socket or client.
+     */
+    public attach(source: EventEmitter): this {
+        this.detach();
+        this.source = source;
+        this.startedAt = Date.now();
+        source.on('send', this.onSend);
+        source.on('message', this.onMessage);
+        return this;
+    }
+
+    /**
+     * Stops recording.
+     */
+    public detach() {
+        if (!this.source) {
+            return;
+        }
+        this.source.removeListener('send', this.onSend);
+        this.source.removeListener('message', this.onMessage);
+        this.source = null;
+    }
+
+    /**
+     * Stops recording, and closes the file of a recorder created with
+     * [toFile]{@link SessionRecorder.toFile}. Resolves once the recording has
+     * been written out.
+     */
+    public close(): Promise<void> {
+        this.detach();
+        if (!this.ownsOutput) {
+            return Promise.resolve();
+        }
+        this.ownsOutput = false;
+        return new Promise<void>(resolve => {
+            this.output.once('finish', resolve);
+            this.output.end();
+        });
+    }
+
+    private record(direction: 'in' | 'out', data: string) {
+        const frame: IRecordedFrame = {
+            time: Date.now() - this.startedAt,
+            direction,
+            data,
+        };
+        this.output.write(`${JSON.stringify(frame)}\n`);
+    }
+}
+
+/**
+ * Reads a recording written by the SessionRecorder from the file at the given path.
+ */
+export function readRecording(path: string): IRecordedFrame[] {
+    return parseRecording(fs.readFileSync(path, 'utf8'));
+}
@@ -0,0 +1,178 @@
+import { expect } from 'chai';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+
+import { GameClient } from '../GameClient';
+import { readRecording, SessionRecorder } from './recorder';
+import { IRecordedFrame, parseRecording, ReplayTransport } from './replay';
+import { InteractiveSocket } from './Socket';
+
+describe('session recording', () => {
+    it('records frames in both directions as NDJSON', () => {
+        const output = new PassThrough();
+        const source = new EventEmitter();
+        const recorder = new SessionRecorder(output).attach(source);
+        source.emit('send', '{"type":"method"}');
+        source.emit('message', '{"type":"reply"}');
+        recorder.detach();
+        source.emit('send', '{"type":"ignored"}');
+
+        const frames = parseRecording(output.read().toString());
+        expect(
+            frames.map(frame => [frame.direction, frame.data]),
+        ).to.deep.equal([
+            ['out', '{"type":"method"}'],
+            ['in', '{"type":"reply"}'],
+        ]);
+    });
+
+    it('closes the file it records to', () => {
+        const file = path.join(os.tmpdir(), `recording-${process.pid}.ndjson`);
+        const source = new EventEmitter();
+        const recorder = SessionRecorder.toFile(file).attach(source);
+        source.emit('send', '{"type":"method"}');
+
+        return recorder.close().then(() => {
+            source.emit('send', '{"type":"ignored"}');
+            const frames = readRecording(file);
+            fs.unlinkSync(file);
+            expect(frames.map(frame => frame.data)).to.deep.equal([
+                '{"type":"method"}',
+            ]);
+        });
+    });
+
+    describe('replay', () => {
+        const recording: IRecordedFrame[] = [
+            {
+                time: 0,
+                direction: 'in',
+                data: JSON.stringify({
+                    type: 'method',
+                    id: 0,
+                    method: 'hello',
+                    params: {},
+                    discard: true,
+                    seq: 1,
+                }),
+            },
+            {
+                time: 5,
+                direction: 'out',
+                data: JSON.stringify({
+                    type: 'method',
+                    id: 1234,
+                    method: 'getScenes',
+                    params: null,
+                    discard: false,
+                    seq: 1,
+                }),
+            },
+            {
+                time: 10,
+                direction: 'in',
+                data: JSON.stringify({
+                    type: 'reply',
+                    id: 1234,
+                    result: { scenes: [{ sceneID: 'default', controls: [] }] },
+                    error: null,
+                    seq: 2,
+                }),
+            },
+        ];
+        let webSocket: any;
+        let client: GameClient;
+
+        function open() {
+            return client.open({
+                versionId: 1234,
+                authToken: 'token',
+                endpoints: [{ address: 'ws://replay' }],
+            });
+        }
+
+        beforeEach(() => {
+            webSocket = InteractiveSocket.WebSocket;
+            client = new GameClient();
+        });
+
+        afterEach(() => {
+            client.close();
+            InteractiveSocket.WebSocket = webSocket;
+        });
+
+        it('replays a recording to a client without a network', () => {
+            const replay = new ReplayTransport(recording, { speed: Infinity });
+            InteractiveSocket.WebSocket = replay.WebSocket;
+            let ended = false;
+            replay.on('end', () => (ended = true));
+
+            return open()
+                .then(() => client.synchronizeScenes())
+                .then(scenes => {
+                    expect(scenes.map(scene => scene.sceneID)).to.deep.equal([
+                        'default',
+                    ]);
+                    expect(ended).to.equal(true, 'expected the replay to end');
+                });
+        });
+
+        // A getMemoryStats call and its reply, which the client won't send again.
+        const unsent: IRecordedFrame[] = [
+            {
+                time: 1,
+                direction: 'out',
+                data: JSON.stringify({
+                    type: 'method',
+                    id: 99,
+                    method: 'getMemoryStats',
+                    params: null,
+                    discard: false,
+                }),
+            },
+            {
+                time: 2,
+                direction: 'in',
+                data: JSON.stringify({
+                    type: 'reply',
+                    id: 99,
+                    result: {},
+                    error: null,
+                }),
+            },
+        ];
+
+        it('skips replies to methods the client does not send', () => {
+            const replay = new ReplayTransport(
+                [recording[0], ...unsent, ...recording.slice(1)],
+                { speed: Infinity, methodTimeout: 10 },
+            );
+            InteractiveSocket.WebSocket = replay.WebSocket;
+            const skipped: string[] = [];
+            replay.on('skipped', (method: string) => skipped.push(method));
+
+            return open()
+                .then(() => client.synchronizeScenes())
+                .then(scenes => {
+                    expect(scenes).to.have.length(1);
+                    expect(skipped).to.deep.equal(['getMemoryStats']);
+                });
+        });
+
+        it('skips replies without any listeners attached', () => {
+            const replay = new ReplayTransport(
+                [recording[0], ...unsent, ...recording.slice(1)],
+                { speed: Infinity, methodTimeout: 10 },
+            );
+            InteractiveSocket.WebSocket = replay.WebSocket;
+
+            // The reply is skipped before the scenes are delivered.
+            return open()
+                .then(() => client.synchronizeScenes())
+                .then(scenes => expect(scenes).to.have.length(1));
+        });
+    });
+});
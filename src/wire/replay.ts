@@ -0,0 +1,244 @@
+import { EventEmitter } from 'events';
+
+import { MemorySocket } from './memorySocket';
+
+/**
+ * A frame which crossed the socket during a recorded session.
+ */
+export interface IRecordedFrame {
+    /**
+     * Milliseconds since the recording started.
+     */
+    time: number;
+    /**
+     * `in` for frames received from the server, `out` for frames the client sent.
+     */
+    direction: 'in' | 'out';
+    /**
+     * The decoded JSON frame.
+     */
+    data: string;
+}
+
+export interface IReplayOptions {
+    /**
+     * How many times faster than recorded the session is replayed. Set to
+     * Infinity to deliver frames without any delay. Defaults to 1.
+     */
+    speed?: number;
+    /**
+     * How long to wait, in milliseconds, for the client to send a recorded
+     * method before its reply is skipped. Defaults to 1000.
+     */
+    methodTimeout?: number;
+}
+
+/**
+ * Parses a recording in the NDJSON format written by the SessionRecorder.
+ */
+export function parseRecording(ndjson: string): IRecordedFrame[] {
+    return ndjson
+        .split('\n')
+        .filter(line => line.trim() !== '')
+        .map(line => <IRecordedFrame>JSON.parse(line));
+}
+
+interface IReplayedMethod {
+    id: number;
+    method: string;
+}
+
+/**
+ * The ReplayWebSocket plays the server's side of a recording to a single socket.
+ */
+class ReplayWebSocket extends MemorySocket {
+    // Methods the client sent, by the id they had in the recording.
+    private methods: { [recordedID: number]: IReplayedMethod } = {};
+    private expected: IRecordedFrame[];
+    private inbound: IRecordedFrame[];
+    private lastTime = 0;
+    private timer: NodeJS.Timer;
+    private waiting = false;
+    private closed = false;
+
+    constructor(private replay: ReplayTransport) {
+        super();
+        const frames = replay.getFrames();
+        this.expected = frames.filter(frame => frame.direction === 'out');
+        this.inbound = frames.filter(frame => frame.direction === 'in');
+        this.timer = setTimeout(() => {
+            this.dispatch('open', {});
+            this.next();
+        }, 0);
+    }
+
+    /**
+     * Matches a method the client sends to the next method of the same name
+     * in the recording, so that the recorded reply can be sent back to it.
+     */
+    public send(payload: string | Uint8Array) {
+        if (typeof payload !== 'string') {
+            return;
+        }
+        const frame = JSON.parse(payload);
+        if (frame.type !== 'method') {
+            return;
+        }
+        for (let i = 0; i < this.expected.length; i++) {
+            const recorded = JSON.parse(this.expected[i].data);
+            if (
+                recorded.type === 'method' &&
+                recorded.method === frame.method
+            ) {
+                this.methods[recorded.id] = {
+                    id: frame.id,
+                    method: frame.method,
+                };
+                this.expected.splice(i, 1);
+                break;
+            }
+        }
+
+        if (this.waiting) {
+            this.waiting = false;
+            clearTimeout(this.timer);
+            this.deliver();
+        }
+    }
+
+    public close(code: number = 1000, reason: string = '') {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        clearTimeout(this.timer);
+        setTimeout(
+            () => this.dispatch('close', { code, reason, wasClean: true }),
+            0,
+        );
+    }
+
+    private next() {
+        if (this.closed) {
+            return;
+        }
+        if (this.inbound.length === 0) {
+            this.replay.emit('end');
+            return;
+        }
+        const speed = this.replay.getOptions().speed;
+        const delay = Math.max(0, this.inbound[0].time - this.lastTime) / speed;
+        this.timer = setTimeout(
+            () => this.deliver(),
+            isFinite(delay) ? delay : 0,
+        );
+    }
+
+    /**
+     * Delivers the next inbound frame. Replies are held back until the client
+     * has sent the method they answer.
+     */
+    private deliver() {
+        const recorded = this.inbound[0];
+        const frame = JSON.parse(recorded.data);
+        if (frame.type === 'reply') {
+            const method = this.methods[frame.id];
+            if (!method) {
+                this.waiting = true;
+                this.timer = setTimeout(
+                    () => this.skip(),
+                    this.replay.getOptions().methodTimeout,
+                );
+                return;
+            }
+            frame.id = method.id;
+            // Frames are replayed as text, so compression is never negotiated.
+            if (method.method === 'setCompression' && frame.result) {
+                frame.result = { scheme: 'none' };
+            }
+        }
+
+        this.inbound.shift();
+        this.lastTime = recorded.time;
+        this.dispatch('message', { data: JSON.stringify(frame) });
+        this.next();
+    }
+
+    /**
+     * Skips a recorded reply to a method the client did not send, such as a
+     * `getTime` sent by a timer rather than in response to the session.
+     */
+    private skip() {
+        const recorded = this.inbound.shift();
+        const id = JSON.parse(recorded.data).id;
+        const index = this.expected.findIndex(
+            frame => JSON.parse(frame.data).id === id,
+        );
+        const method =
+            index === -1 ? null : JSON.parse(this.expected[index].data).method;
+        if (index !== -1) {
+            this.expected.splice(index, 1);
+        }
+        this.waiting = false;
+        this.lastTime = recorded.time;
+        this.next();
+        this.replay.emit('skipped', method);
+    }
+}
+
+/**
+ * Returns a WebSocket constructor whose sockets replay the given transport's recording.
+ */
+function bindWebSocket(replay: ReplayTransport): any {
+    return class extends ReplayWebSocket {
+        constructor() {
+            super(replay);
+        }
+    };
+}
+
+/**
+ * The ReplayTransport plays a recorded session back to a client without a
+ * network. Its `WebSocket` is used in place of a real WebSocket implementation,
+ * each socket opened with it receives the recorded frames from the server.
+ *
+ * Recorded replies are delivered once the client sends the method they answer,
+ * matched by method name in the order they were recorded. If the client does not
+ * send a method within the `methodTimeout`, its reply is skipped and the
+ * transport emits `skipped` with the method's name. The transport emits `end`
+ * once every recorded frame has been delivered or skipped.
+ *
+ * @example
+ * const replay = new ReplayTransport(parseRecording(ndjson), { speed: Infinity });
+ * Interactive.setWebSocket(replay.WebSocket);
+ */
+export class ReplayTransport extends EventEmitter {
+    /**
+     * A WebSocket constructor which replays the recording, pass it to
+     * [setWebSocket]{@link setWebSocket}.
+     */
+    //tslint:disable-next-line:variable-name
+    public readonly WebSocket: any;
+
+    private options: IReplayOptions;
+
+    constructor(
+        private frames: IRecordedFrame[],
+        options: IReplayOptions = {},
+    ) {
+        super();
+        this.options = Object.assign(
+            { speed: 1, methodTimeout: 1000 },
+            options,
+        );
+        this.WebSocket = bindWebSocket(this);
+    }
+
+    public getFrames(): IRecordedFrame[] {
+        return this.frames;
+    }
+
+    public getOptions(): IReplayOptions {
+        return this.options;
+    }
+}
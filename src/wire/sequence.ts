@@ -0,0 +1,41 @@
+import { ISequenceGap } from './socketTypes';
+
+/**
+ * The SequenceTracker follows the sequence numbers the server stamps on its
+ * packets, which go up by one with each packet it sends on a connection.
+ */
+export class SequenceTracker {
+    private last = 0;
+    private started = false;
+
+    /**
+     * Returns the last sequence number received, which is sent back to the
+     * server on outgoing packets.
+     */
+    public current(): number {
+        return this.last;
+    }
+
+    /**
+     * Starts following a new connection. Its first sequence number is accepted
+     * as is, since the server may have started counting again.
+     */
+    public restart() {
+        this.started = false;
+    }
+
+    /**
+     * Records a sequence number received from the server, returning the gap
+     * if it skipped ahead of or went back from the one expected.
+     */
+    public observe(seq: number): ISequenceGap {
+        const expected = this.last + 1;
+        const started = this.started;
+        this.last = seq;
+        this.started = true;
+        if (!started || seq === expected) {
+            return null;
+        }
+        return { expected, received: seq };
+    }
+}
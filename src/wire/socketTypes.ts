@@ -0,0 +1,179 @@
+import { IRawValues } from '../interfaces';
+import { ILogger } from '../logging';
+import { CompressionScheme } from './compression';
+import { IReconnectionPolicy } from './reconnection';
+
+/**
+ * Close codes that are deemed to be recoverable by the reconnection policy
+ */
+export const recoverableCloseCodes = [1000, 1011, 1012];
+
+/**
+ * Methods which are safe to send more than once, and so may be re-sent after a
+ * reconnect when using [DeliveryMode.Resend]{@link DeliveryMode.Resend}.
+ *
+ * `setCompression` is left out as clients negotiate it again on each open, and
+ * `getTime` as a late reply would skew round trip times.
+ */
+export const defaultResendableMethods = [
+    'getScenes',
+    'getGroups',
+    'ready',
+    'updateControls',
+    'updateScenes',
+    'updateGroups',
+    'updateParticipants',
+];
+
+/**
+ * DeliveryMode controls what happens to packets which are awaiting a reply
+ * when the socket closes unexpectedly.
+ */
+export enum DeliveryMode {
+    /**
+     * In-flight packets are rejected with a CancelledError.
+     */
+    Cancel = 1,
+    /**
+     * In-flight packets for resendable methods are sent again once the socket
+     * reconnects, all other packets are rejected with a CancelledError.
+     */
+    Resend,
+}
+
+/**
+ * SocketOptions are passed to the Interactive Socket and control behavior.
+ */
+export interface ISocketOptions {
+    // Settings to use for reconnecting automatically to Constellation.
+    // Defaults to automatically reconnecting with the ExponentialPolicy.
+    reconnectionPolicy?: IReconnectionPolicy;
+    autoReconnect?: boolean;
+
+    // Websocket URL to connect to, defaults to <TODO>
+    url?: string;
+
+    // Compression scheme negotiated with the server, defaults to none.
+    // Every new connection starts uncompressed, so this is reset on connect.
+    compressionScheme?: CompressionScheme;
+
+    // Query params to add
+    queryParams?: IRawValues;
+
+    // Optional OAuth token to use for authentication.
+    authToken?: string;
+    // Optional function which resolves with a fresh OAuth token. It is called
+    // before each reconnection, and a CannotAuthenticate close is retried once
+    // with a new token instead of being raised as an error.
+    authTokenProvider?: () => Promise<string>;
+
+    // Timeout on Constellation method calls before we throw an error.
+    replyTimeout?: number;
+
+    // What to do with in-flight packets when the socket closes. Defaults to Cancel.
+    deliveryMode?: DeliveryMode;
+    // Methods which may be re-sent when using DeliveryMode.Resend.
+    resendableMethods?: string[];
+
+    // Duration upon which to send a ping to the server. Defaults to 10 seconds.
+    // Set to 0 to disable liveness checks.
+    pingInterval?: number;
+    // How many pings in a row may go unanswered before the connection is
+    // considered dead and the socket reconnects. Defaults to 3.
+    maxMissedPings?: number;
+    // Any extra headers to include in the socket connection.
+    extraHeaders?: IRawValues;
+    // Optional intercept function that can be run before socket reconnections.
+    reconnectChecker?: () => Promise<void>;
+    // Receives log entries about the connection. Credentials are redacted
+    // before they reach it. Defaults to discarding everything.
+    logger?: ILogger;
+}
+
+/**
+ * Describes a packet from the server whose sequence number did not follow the
+ * previous packet's, emitted by the socket as `sequenceGap`. Packets were missed
+ * if `received` is ahead of `expected`, and repeated or reordered if it is behind.
+ */
+export interface ISequenceGap {
+    expected: number;
+    received: number;
+}
+
+export interface IWebSocketOptions {
+    headers: IRawValues;
+}
+
+export interface ICloseEvent {
+    code: number;
+    reason: string;
+    wasClean: boolean;
+}
+
+/**
+ * A histogram of reply latencies. Each bucket counts the replies which took at
+ * most `le` milliseconds, so the counts are cumulative.
+ */
+export interface ILatencyHistogram {
+    buckets: { le: number; count: number }[];
+    // The number of replies, and the sum of their latencies.
+    count: number;
+    sum: number;
+}
+
+export interface IMethodStats {
+    calls: number;
+    replies: number;
+    // Replies which carried an error.
+    errors: number;
+    timeouts: number;
+    latency: ILatencyHistogram;
+}
+
+/**
+ * Counters describing the traffic on a socket, returned by
+ * [getStats]{@link InteractiveSocket.getStats}.
+ */
+export interface ISocketStats {
+    state: SocketState;
+    queueSize: number;
+    bytesSent: number;
+    bytesReceived: number;
+    packetsSent: number;
+    packetsReceived: number;
+    // Methods which did not receive a reply within the reply timeout.
+    timeouts: number;
+    reconnects: number;
+    // Calls, replies, timeouts and reply latencies for each method name.
+    methods: { [method: string]: IMethodStats };
+}
+
+/**
+ * SocketState is used to record the status of the websocket connection.
+ */
+export enum SocketState {
+    /**
+     * A connection attempt has not been made yet.
+     */
+    Idle = 1,
+    /**
+     * A connection attempt is currently being made.
+     */
+    Connecting,
+    /**
+     * The socket is connection and data may be sent.
+     */
+    Connected,
+    /**
+     * The socket is gracefully closing; after this it will become Idle.
+     */
+    Closing,
+    /**
+     * The socket is reconnecting after closing unexpectedly.
+     */
+    Reconnecting,
+    /**
+     * Connect was called whilst the old socket was still open.
+     */
+    Refreshing,
+}
@@ -0,0 +1,137 @@
+import {
+    ILatencyHistogram,
+    IMethodStats,
+    ISocketStats,
+    SocketState,
+} from './socketTypes';
+
+/**
+ * The upper bounds, in milliseconds, of the reply latency histogram buckets.
+ */
+export const latencyBuckets = [
+    10,
+    25,
+    50,
+    100,
+    250,
+    500,
+    1000,
+    2500,
+    5000,
+    10000,
+];
+
+/**
+ * SocketStats counts the traffic going over a socket, for
+ * [getStats]{@link InteractiveSocket.getStats}.
+ */
+export class SocketStats {
+    private bytesSent = 0;
+    private bytesReceived = 0;
+    private packetsSent = 0;
+    private packetsReceived = 0;
+    private timeouts = 0;
+    private reconnects = 0;
+    private methods: { [method: string]: IMethodStats } = {};
+
+    /**
+     * Records a frame written to the socket.
+     */
+    public sent(payload: string | Uint8Array) {
+        this.packetsSent++;
+        this.bytesSent += byteLength(payload);
+    }
+
+    /**
+     * Records a frame read from the socket.
+     */
+    public received(payload: string | ArrayBuffer) {
+        this.packetsReceived++;
+        this.bytesReceived += byteLength(payload);
+    }
+
+    /**
+     * Records a call to the given method.
+     */
+    public call(method: string) {
+        this.method(method).calls++;
+    }
+
+    /**
+     * Records the time it took for the server to reply to a method, and
+     * whether the reply was an error.
+     */
+    public reply(method: string, latency: number, failed: boolean) {
+        const stats = this.method(method);
+        stats.replies++;
+        if (failed) {
+            stats.errors++;
+        }
+        stats.latency.count++;
+        stats.latency.sum += latency;
+        stats.latency.buckets.forEach(bucket => {
+            if (latency <= bucket.le) {
+                bucket.count++;
+            }
+        });
+    }
+
+    /**
+     * Records a method which timed out waiting for its reply.
+     */
+    public timeout(method: string) {
+        this.timeouts++;
+        this.method(method).timeouts++;
+    }
+
+    public reconnect() {
+        this.reconnects++;
+    }
+
+    /**
+     * Returns a copy of the counters, which is not updated as more traffic flows.
+     */
+    public snapshot(state: SocketState, queueSize: number): ISocketStats {
+        return JSON.parse(
+            JSON.stringify({
+                state,
+                queueSize,
+                bytesSent: this.bytesSent,
+                bytesReceived: this.bytesReceived,
+                packetsSent: this.packetsSent,
+                packetsReceived: this.packetsReceived,
+                timeouts: this.timeouts,
+                reconnects: this.reconnects,
+                methods: this.methods,
+            }),
+        );
+    }
+
+    private method(method: string): IMethodStats {
+        if (!this.methods[method]) {
+            this.methods[method] = {
+                calls: 0,
+                replies: 0,
+                errors: 0,
+                timeouts: 0,
+                latency: createHistogram(),
+            };
+        }
+        return this.methods[method];
+    }
+}
+
+function createHistogram(): ILatencyHistogram {
+    return {
+        buckets: latencyBuckets.map(le => ({ le, count: 0 })),
+        count: 0,
+        sum: 0,
+    };
+}
+
+function byteLength(payload: string | Uint8Array | ArrayBuffer): number {
+    if (typeof payload === 'string') {
+        return Buffer.byteLength(payload, 'utf8');
+    }
+    return payload.byteLength;
+}